@@ -1,4 +1,4 @@
-import { Smartphone, Tablet, Laptop, RefreshCw, Wifi } from "lucide-react";
+import { Smartphone, Tablet, Laptop, RefreshCw, Wifi, ShieldCheck, Link2 } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import type { Device } from "@shared/schema";
@@ -6,6 +6,9 @@ import type { Device } from "@shared/schema";
 interface DeviceListProps {
   devices: Device[];
   onRefresh: () => void;
+  trustedDeviceIds?: Set<string>;
+  // Omitted when pairing is unavailable (no WebCrypto outside secure contexts)
+  onPair?: (device: Device) => void;
 }
 
 const getDeviceIcon = (type: string) => {
@@ -32,7 +35,7 @@ const getStatusColor = (status: string) => {
   }
 };
 
-export default function DeviceList({ devices, onRefresh }: DeviceListProps) {
+export default function DeviceList({ devices, onRefresh, trustedDeviceIds, onPair }: DeviceListProps) {
   return (
     <Card className="p-6">
       <div className="flex items-center justify-between mb-4">
@@ -48,6 +51,7 @@ export default function DeviceList({ devices, onRefresh }: DeviceListProps) {
             const DeviceIcon = getDeviceIcon(device.type);
             const iconBgClass = getDeviceIconBg(device.type);
             const statusColor = getStatusColor(device.status);
+            const isTrusted = trustedDeviceIds?.has(device.deviceId);
             
             return (
               <div
@@ -58,13 +62,19 @@ export default function DeviceList({ devices, onRefresh }: DeviceListProps) {
                   <DeviceIcon size={20} />
                 </div>
                 <div className="flex-1 min-w-0">
-                  <h4 className="text-sm font-medium text-foreground truncate">
-                    {device.name}
+                  <h4 className="text-sm font-medium text-foreground truncate flex items-center space-x-1">
+                    <span className="truncate">{device.name}</span>
+                    {isTrusted && <ShieldCheck className="text-green-600 shrink-0" size={14} />}
                   </h4>
                   <p className="text-xs text-muted-foreground capitalize">
                     {device.status}
                   </p>
                 </div>
+                {onPair && !isTrusted && (
+                  <Button variant="ghost" size="sm" title="Pair with this device" onClick={() => onPair(device)}>
+                    <Link2 size={14} />
+                  </Button>
+                )}
                 <div className={`w-2 h-2 rounded-full ${statusColor}`} />
               </div>
             );
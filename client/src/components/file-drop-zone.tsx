@@ -33,11 +33,15 @@ export default function FileDropZone({ onFileDrop, availableDevices }: FileDropZ
     return new Promise((resolve) => {
       if (entry.isFile) {
         (entry as FileSystemFileEntry).file((file) => {
-          // Preserve folder structure by setting webkitRelativePath
-          Object.defineProperty(file, 'webkitRelativePath', {
-            value: entry.fullPath.substring(1), // Remove leading slash
-            writable: false
-          });
+          // Preserve folder structure by setting webkitRelativePath; files
+          // dropped on their own keep an empty path, like a file input's
+          const relativePath = entry.fullPath.substring(1); // Remove leading slash
+          if (relativePath.includes('/')) {
+            Object.defineProperty(file, 'webkitRelativePath', {
+              value: relativePath,
+              writable: false
+            });
+          }
           resolve([file]);
         });
       } else if (entry.isDirectory) {
@@ -1,17 +1,36 @@
 import { Download } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { batchFolderName } from "@/lib/transfer-batches";
+import type { BatchFile, Device } from "@shared/schema";
+
+// A single file offer, or a batch offer with its manifest
+export interface IncomingOffer {
+  transferId?: string;
+  batchId?: string;
+  fileName?: string;
+  fileSize?: number;
+  fileType?: string;
+  files?: BatchFile[];
+  totalSize?: number;
+  senderId: string;
+  senderName?: string;
+  // Relay key and signature, passed on when the offer is accepted
+  publicKey?: string;
+  signature?: string;
+}
 
 interface IncomingTransferProps {
-  transfer: {
-    transferId: string;
-    fileName: string;
-    fileSize: number;
-    senderId: string;
-    senderName?: string;
-  };
-  onAccept: () => void;
-  onReject: () => void;
+  // Offers waiting for an answer, oldest first
+  offers: IncomingOffer[];
+  availableDevices: Device[];
+  onAccept: (offer: IncomingOffer) => void;
+  onReject: (offer: IncomingOffer) => void;
+  onAcceptAllFrom: (senderId: string) => void;
+}
+
+export function offerIdOf(offer: IncomingOffer): string {
+  return offer.batchId ?? offer.transferId ?? '';
 }
 
 const formatFileSize = (bytes: number): string => {
@@ -22,38 +41,79 @@ const formatFileSize = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
 };
 
-export default function IncomingTransfer({ transfer, onAccept, onReject }: IncomingTransferProps) {
+// Batch manifests list this many names before summarizing the rest
+const LISTED_FILES = 5;
+
+export default function IncomingTransfer({ offers, availableDevices, onAccept, onReject, onAcceptAllFrom }: IncomingTransferProps) {
+  const senderName = (offer: IncomingOffer) =>
+    offer.senderName || availableDevices.find(d => d.deviceId === offer.senderId)?.name || offer.senderId;
+
   return (
-    <Card className="p-6 border-l-4 border-l-yellow-500">
-      <div className="flex items-center justify-between">
-        <div className="flex items-center space-x-4">
-          <div className="w-12 h-12 bg-yellow-100 dark:bg-yellow-900/20 rounded-lg flex items-center justify-center">
-            <Download className="text-yellow-600 dark:text-yellow-400" size={24} />
-          </div>
-          <div>
-            <h3 className="text-sm font-semibold text-foreground">Incoming File</h3>
-            <p className="text-muted-foreground">
-              <span className="font-medium">
-                {transfer.senderName || transfer.senderId}
-              </span>{' '}
-              wants to send <span className="font-medium">{transfer.fileName}</span>{' '}
-              ({formatFileSize(transfer.fileSize)})
-            </p>
-          </div>
-        </div>
-        
-        <div className="flex space-x-2">
-          <Button variant="outline" onClick={onReject}>
-            Decline
-          </Button>
-          <Button 
-            onClick={onAccept}
-            className="bg-green-600 hover:bg-green-700 text-white"
-          >
-            Accept
-          </Button>
-        </div>
-      </div>
-    </Card>
+    <div className="space-y-4">
+      {offers.map(offer => {
+        const files = offer.files;
+        const folderName = files && batchFolderName(files);
+        const queuedFromSender = offers.filter(o => o.senderId === offer.senderId).length;
+        // The bulk action sits on the first offer of each sender only
+        const firstFromSender = offers.find(o => o.senderId === offer.senderId) === offer;
+
+        return (
+          <Card key={offerIdOf(offer)} className="p-6 border-l-4 border-l-yellow-500">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <div className="w-12 h-12 bg-yellow-100 dark:bg-yellow-900/20 rounded-lg flex items-center justify-center">
+                  <Download className="text-yellow-600 dark:text-yellow-400" size={24} />
+                </div>
+                <div>
+                  <h3 className="text-sm font-semibold text-foreground">
+                    {folderName ? 'Incoming Folder' : files ? 'Incoming Files' : 'Incoming File'}
+                  </h3>
+                  <p className="text-muted-foreground">
+                    <span className="font-medium">{senderName(offer)}</span>{' '}
+                    wants to send{' '}
+                    <span className="font-medium">
+                      {folderName ? `${folderName} (${files.length} files)` : files ? `${files.length} files` : offer.fileName}
+                    </span>{' '}
+                    ({formatFileSize((files ? offer.totalSize : offer.fileSize) ?? 0)})
+                  </p>
+                  {files && (
+                    <ul className="mt-2 text-xs text-muted-foreground space-y-0.5">
+                      {files.slice(0, LISTED_FILES).map(file => (
+                        <li key={file.transferId} className="truncate">
+                          {file.relativePath || file.fileName} ({formatFileSize(file.fileSize)})
+                        </li>
+                      ))}
+                      {files.length > LISTED_FILES && (
+                        <li>and {files.length - LISTED_FILES} more</li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={() => onReject(offer)}>
+                  Decline
+                </Button>
+                <Button
+                  onClick={() => onAccept(offer)}
+                  className="bg-green-600 hover:bg-green-700 text-white"
+                >
+                  Accept
+                </Button>
+              </div>
+            </div>
+
+            {firstFromSender && queuedFromSender > 1 && (
+              <div className="flex justify-end mt-3">
+                <Button variant="ghost" size="sm" onClick={() => onAcceptAllFrom(offer.senderId)}>
+                  Accept all {queuedFromSender} from {senderName(offer)}
+                </Button>
+              </div>
+            )}
+          </Card>
+        );
+      })}
+    </div>
   );
 }
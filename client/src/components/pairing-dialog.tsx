@@ -0,0 +1,81 @@
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { PairingSession } from "@/hooks/use-pairing";
+
+interface PairingDialogProps {
+  session: PairingSession | null;
+  onAccept: () => void;
+  onConfirm: () => void;
+  onCancel: (reason?: string) => void;
+  onDismiss: () => void;
+}
+
+export default function PairingDialog({ session, onAccept, onConfirm, onCancel, onDismiss }: PairingDialogProps) {
+  if (!session) return null;
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    if (session.stage === 'cancelled') {
+      onDismiss();
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={handleOpenChange}>
+      <DialogContent className="pixel-font">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2 uppercase tracking-wider">
+            <ShieldCheck size={18} />
+            <span>Pair with {session.peerName}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {session.stage === 'requesting' && `Waiting for ${session.peerName} to accept the pairing request...`}
+            {session.stage === 'incoming' && `${session.peerName} wants to pair with this device. Paired devices can send you files without asking when auto accept is on.`}
+            {session.stage === 'exchanging' && 'Exchanging keys...'}
+            {session.stage === 'comparing' && `Check that ${session.peerName} shows exactly the same code before confirming.`}
+            {session.stage === 'cancelled' && session.reason}
+          </DialogDescription>
+        </DialogHeader>
+
+        {session.stage === 'comparing' && session.sas && (
+          <div className="text-center py-4">
+            <span className="text-4xl font-bold tracking-widest text-primary">{session.sas}</span>
+          </div>
+        )}
+
+        <DialogFooter>
+          {session.stage === 'incoming' && (
+            <>
+              <Button variant="outline" onClick={() => onCancel()}>Decline</Button>
+              <Button onClick={onAccept}>Accept</Button>
+            </>
+          )}
+          {(session.stage === 'requesting' || session.stage === 'exchanging') && (
+            <Button variant="outline" onClick={() => onCancel()}>Cancel</Button>
+          )}
+          {session.stage === 'comparing' && (
+            <>
+              <Button variant="outline" onClick={() => onCancel('The codes did not match, so the devices were not paired')}>
+                Codes differ
+              </Button>
+              <Button onClick={onConfirm} className="bg-green-600 hover:bg-green-700 text-white">Codes match</Button>
+            </>
+          )}
+          {session.stage === 'cancelled' && (
+            <Button onClick={onDismiss}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
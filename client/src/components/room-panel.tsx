@@ -0,0 +1,86 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Copy, LogOut, Users } from "lucide-react";
+import { useState } from "react";
+import { roomCodeSchema } from "@shared/schema";
+
+interface RoomPanelProps {
+  // Joined room code, or undefined when grouped by network
+  roomCode?: string;
+  onJoin: (code: string) => void;
+  onLeave: () => void;
+  onCopyLink: (url: string) => void;
+}
+
+// Look-alike characters (0/O, 1/I) are left out so codes survive being read aloud
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 6;
+
+function createRoomCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH));
+  return Array.from(bytes, byte => ROOM_CODE_ALPHABET[byte % ROOM_CODE_ALPHABET.length]).join('');
+}
+
+export default function RoomPanel({ roomCode, onJoin, onLeave, onCopyLink }: RoomPanelProps) {
+  const [code, setCode] = useState('');
+  const validCode = roomCodeSchema.safeParse(code).success;
+  const roomUrl = roomCode ? `${window.location.origin}/r/${roomCode}` : '';
+
+  return (
+    <div className="bg-card pixel-border border-primary pixel-shadow p-6">
+      <h2 className="text-lg text-accent uppercase tracking-wider mb-6 pixel-glow">ROOM</h2>
+
+      {roomCode ? (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between pixel-border border-border bg-muted px-3 py-2">
+            <div className="min-w-0">
+              <p className="text-xs text-muted-foreground uppercase tracking-wider">ROOM CODE</p>
+              <p className="text-lg text-primary tracking-widest">{roomCode}</p>
+            </div>
+            <Button variant="ghost" size="sm" title="Copy room link" onClick={() => onCopyLink(roomUrl)}>
+              <Copy size={14} />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground uppercase tracking-wider">
+            ONLY DEVICES IN THIS ROOM CAN SEE YOU
+          </p>
+          <Button variant="outline" size="sm" className="w-full pixel-border uppercase" onClick={onLeave}>
+            <LogOut size={14} className="mr-2" />
+            LEAVE ROOM
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground uppercase tracking-wider">
+            SHOWING DEVICES ON YOUR NETWORK
+          </p>
+          <Button size="sm" className="w-full pixel-border uppercase" onClick={() => onJoin(createRoomCode())}>
+            <Users size={14} className="mr-2" />
+            CREATE ROOM
+          </Button>
+          <div className="space-y-2">
+            <Label htmlFor="room-code" className="text-xs text-primary uppercase tracking-wider pixel-font">
+              JOIN BY CODE
+            </Label>
+            <div className="flex space-x-2">
+              <Input
+                id="room-code"
+                value={code}
+                maxLength={12}
+                onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ''))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && validCode) onJoin(code);
+                }}
+                className="flex-1 pixel-border border-border bg-input text-foreground pixel-font text-xs uppercase tracking-widest"
+              />
+              <Button size="sm" variant="outline" className="pixel-border uppercase" disabled={!validCode} onClick={() => onJoin(code)}>
+                JOIN
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,23 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
 import { useState } from "react";
+import { useTrustedDevices } from "@/hooks/use-trusted-devices";
+import { removeTrustedDevice } from "@/lib/trusted-devices";
+import { supportsDeviceIdentity } from "@/lib/device-identity";
+import { getChannelSetting, CHANNEL_SETTING_KEY } from "@/lib/striped-channels";
+import { getPeerIdleSeconds, PEER_IDLE_SETTING_KEY } from "@/lib/peer-pool";
+
+const CHANNEL_OPTIONS = ['auto', '1', '2', '4', '8'];
+const PEER_IDLE_OPTIONS = [
+  { value: '0', label: 'OFF' },
+  { value: '30', label: '30 SEC' },
+  { value: '120', label: '2 MIN' },
+  { value: '600', label: '10 MIN' }
+];
 
 interface SettingsPanelProps {
   deviceName: string;
@@ -15,11 +31,16 @@ export default function SettingsPanel({ deviceName, onDeviceNameChange }: Settin
     return saved ? JSON.parse(saved) : false;
   });
   
+  const trustedDevices = useTrustedDevices();
+
   const [soundNotifications, setSoundNotifications] = useState(() => {
     const saved = localStorage.getItem('soundNotifications');
     return saved ? JSON.parse(saved) : true;
   });
 
+  const [dataChannels, setDataChannels] = useState(() => String(getChannelSetting()));
+  const [peerIdle, setPeerIdle] = useState(() => String(getPeerIdleSeconds()));
+
   const handleAutoAcceptChange = (checked: boolean) => {
     setAutoAccept(checked);
     localStorage.setItem('autoAccept', JSON.stringify(checked));
@@ -30,6 +51,16 @@ export default function SettingsPanel({ deviceName, onDeviceNameChange }: Settin
     localStorage.setItem('soundNotifications', JSON.stringify(checked));
   };
 
+  const handleDataChannelsChange = (value: string) => {
+    setDataChannels(value);
+    localStorage.setItem(CHANNEL_SETTING_KEY, value);
+  };
+
+  const handlePeerIdleChange = (value: string) => {
+    setPeerIdle(value);
+    localStorage.setItem(PEER_IDLE_SETTING_KEY, value);
+  };
+
   return (
     <div className="bg-card pixel-border border-primary pixel-shadow p-6">
       <h2 className="text-lg text-accent uppercase tracking-wider mb-6 pixel-glow">SETTINGS</h2>
@@ -67,6 +98,43 @@ export default function SettingsPanel({ deviceName, onDeviceNameChange }: Settin
           </div>
         </div>
 
+        {/* Trusted Devices */}
+        <div className="space-y-3">
+          <Label className="text-xs text-primary uppercase tracking-wider pixel-font">
+            TRUSTED DEVICES
+          </Label>
+          {!supportsDeviceIdentity() ? (
+            <p className="text-xs text-muted-foreground uppercase tracking-wider">
+              PAIRING NEEDS HTTPS
+            </p>
+          ) : trustedDevices.length === 0 ? (
+            <p className="text-xs text-muted-foreground uppercase tracking-wider">
+              PAIR A DEVICE FROM THE DEVICE LIST
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {trustedDevices.map(device => (
+                <div key={device.deviceId} className="flex items-center justify-between pixel-border border-border bg-muted px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-xs text-foreground uppercase tracking-wider truncate">{device.name}</p>
+                    <p className="text-xs text-muted-foreground tracking-wider truncate" title={device.publicKey}>
+                      KEY {device.publicKey.slice(2, 18).toUpperCase()}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Forget this device"
+                    onClick={() => removeTrustedDevice(device.deviceId)}
+                  >
+                    <X size={14} />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Sound Notifications */}
         <div className="flex items-center justify-between">
           <div className="space-y-1">
@@ -85,6 +153,66 @@ export default function SettingsPanel({ deviceName, onDeviceNameChange }: Settin
             />
           </div>
         </div>
+
+        {/* Data Channels */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label className="text-xs text-primary uppercase tracking-wider pixel-font">
+              DATA CHANNELS
+            </Label>
+            <p className="text-xs text-muted-foreground uppercase tracking-wider">
+              PARALLEL STREAMS PER TRANSFER
+            </p>
+          </div>
+          <div className="pixel-border border-border bg-muted w-24">
+            <Select value={dataChannels} onValueChange={handleDataChannelsChange}>
+              <SelectTrigger className="pixel-border border-0 bg-transparent text-xs uppercase tracking-wider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card pixel-border border-primary">
+                {CHANNEL_OPTIONS.map(option => (
+                  <SelectItem
+                    key={option}
+                    value={option}
+                    className="text-xs uppercase tracking-wider hover:bg-primary/20"
+                  >
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Keep Connections */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label className="text-xs text-primary uppercase tracking-wider pixel-font">
+              KEEP CONNECTIONS
+            </Label>
+            <p className="text-xs text-muted-foreground uppercase tracking-wider">
+              REUSE FOR THE NEXT TRANSFER
+            </p>
+          </div>
+          <div className="pixel-border border-border bg-muted w-24">
+            <Select value={peerIdle} onValueChange={handlePeerIdleChange}>
+              <SelectTrigger className="pixel-border border-0 bg-transparent text-xs uppercase tracking-wider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card pixel-border border-primary">
+                {PEER_IDLE_OPTIONS.map(option => (
+                  <SelectItem
+                    key={option.value}
+                    value={option.value}
+                    className="text-xs uppercase tracking-wider hover:bg-primary/20"
+                  >
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { ClipboardPaste, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MAX_TEXT_SHARE_LENGTH, type Device } from "@shared/schema";
+
+interface TextSharePanelProps {
+  availableDevices: Device[];
+  onSend: (text: string, targetDevice: Device) => void;
+}
+
+export default function TextSharePanel({ availableDevices, onSend }: TextSharePanelProps) {
+  const [text, setText] = useState('');
+  const [selectedDevice, setSelectedDevice] = useState<string>("");
+  const device = availableDevices.find(d => d.deviceId === selectedDevice);
+  const tooLong = text.length > MAX_TEXT_SHARE_LENGTH;
+
+  const handlePaste = async () => {
+    try {
+      setText(await navigator.clipboard.readText());
+    } catch (error) {
+      // Reading the clipboard needs permission; pasting into the box still works
+      console.log('Clipboard not readable:', error);
+    }
+  };
+
+  const handleSend = () => {
+    if (!device || !text.trim() || tooLong) return;
+    onSend(text, device);
+    setText('');
+  };
+
+  return (
+    <div className="bg-card pixel-border border-primary pixel-shadow p-6">
+      <h2 className="text-lg text-accent uppercase tracking-wider mb-6 pixel-glow">SEND TEXT</h2>
+
+      <div className="space-y-4">
+        <Textarea
+          value={text}
+          placeholder="PASTE A LINK, TOKEN OR SNIPPET"
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSend();
+          }}
+          className="min-h-24 pixel-border border-border bg-input text-foreground font-mono text-xs"
+        />
+        <p className={`text-xs uppercase tracking-wider ${tooLong ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {text.length} / {MAX_TEXT_SHARE_LENGTH} CHARACTERS
+        </p>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="flex-1 bg-input pixel-border border-border">
+            <Select value={selectedDevice} onValueChange={setSelectedDevice}>
+              <SelectTrigger className="pixel-border border-0 bg-transparent text-xs uppercase tracking-wider">
+                <SelectValue placeholder="SELECT TARGET DEVICE" />
+              </SelectTrigger>
+              <SelectContent className="bg-card pixel-border border-primary">
+                {availableDevices.map((device) => (
+                  <SelectItem
+                    key={device.deviceId}
+                    value={device.deviceId}
+                    className="text-xs uppercase tracking-wider hover:bg-primary/20"
+                  >
+                    {device.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button size="sm" variant="outline" className="pixel-border uppercase" onClick={handlePaste}>
+            <ClipboardPaste size={14} className="mr-2" />
+            PASTE
+          </Button>
+          <Button size="sm" className="pixel-border uppercase" disabled={!device || !text.trim() || tooLong} onClick={handleSend}>
+            <Send size={14} className="mr-2" />
+            SEND
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Copy, MessageSquareText, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ReceivedText } from "@/hooks/use-text-share";
+
+interface TextSnippetProps {
+  snippet: ReceivedText;
+  senderName?: string;
+  onCopy: (text: string) => void;
+  onDismiss: () => void;
+}
+
+// Trailing punctuation is left out, so "see https://example.com." links the URL only
+const LINK_PATTERN = /(https?:\/\/[^\s<>"']*[^\s<>"'.,;:!?)\]])/;
+
+// Split the text so URLs can be rendered as links; everything else stays as typed
+function linkify(text: string) {
+  return text.split(LINK_PATTERN).map((part, index) =>
+    index % 2 === 1 ? (
+      <a key={index} href={part} target="_blank" rel="noopener noreferrer" className="text-primary underline break-all">
+        {part}
+      </a>
+    ) : (
+      part
+    )
+  );
+}
+
+export default function TextSnippet({ snippet, senderName, onCopy, onDismiss }: TextSnippetProps) {
+  return (
+    <div className="bg-card pixel-border border-accent pixel-shadow p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2 min-w-0">
+          <MessageSquareText className="text-accent shrink-0" size={16} />
+          <span className="text-xs text-muted-foreground uppercase tracking-wider truncate">
+            TEXT FROM <span className="text-primary">{senderName || snippet.senderId}</span>
+            {' · '}
+            {new Date(snippet.receivedAt).toLocaleTimeString()}
+          </span>
+        </div>
+        <div className="flex items-center">
+          <Button variant="ghost" size="sm" title="Copy to clipboard" onClick={() => onCopy(snippet.text)}>
+            <Copy size={14} />
+          </Button>
+          <Button variant="ghost" size="sm" title="Dismiss" onClick={onDismiss}>
+            <X size={14} />
+          </Button>
+        </div>
+      </div>
+      <pre className="max-h-60 overflow-auto whitespace-pre-wrap break-words font-mono text-xs text-foreground bg-muted p-3">
+        {linkify(snippet.text)}
+      </pre>
+    </div>
+  );
+}
@@ -1,12 +1,19 @@
-import { CheckCircle, XCircle, Download, Upload } from "lucide-react";
+import { CheckCircle, XCircle, ShieldAlert, Download, Upload, FileArchive } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { formatSpeed, formatDuration } from "@/lib/transfer-speed";
+import { groupTransfers } from "@/lib/transfer-batches";
 import type { Transfer, Device } from "@shared/schema";
 
 interface TransferHistoryProps {
   transfers: Transfer[];
   currentDeviceId: string;
   availableDevices: Device[];
+  // Whether the relayed files of a received batch can be fetched again as a
+  // zip. It is built on this device and needs the keys this page session
+  // received them with, so it is gone after a reload.
+  canDownloadZip?: (files: Transfer[]) => boolean;
+  onDownloadZip?: (files: Transfer[]) => void;
 }
 
 const formatTimeAgo = (date: Date): string => {
@@ -29,10 +36,21 @@ const formatTimeAgo = (date: Date): string => {
   return `${diffInDays} day${diffInDays > 1 ? 's' : ''} ago`;
 };
 
+// e.g. "2.4 MB/s • 12s • P2P", from what was recorded when the transfer completed
+const formatStats = (transfer: Transfer): string | null => {
+  const parts: string[] = [];
+  if (transfer.averageSpeed) parts.push(formatSpeed(transfer.averageSpeed));
+  if (transfer.durationMs !== null) parts.push(formatDuration(transfer.durationMs / 1000));
+  if (transfer.transport) parts.push(transfer.transport === 'relay' ? 'Relay' : 'P2P');
+  return parts.length > 0 ? parts.join(' • ') : null;
+};
+
 export default function TransferHistory({ 
   transfers, 
   currentDeviceId, 
-  availableDevices 
+  availableDevices,
+  canDownloadZip,
+  onDownloadZip
 }: TransferHistoryProps) {
   if (transfers.length === 0) {
     return (
@@ -50,10 +68,11 @@ export default function TransferHistory({
       <h2 className="text-lg font-semibold text-foreground mb-4">Recent Transfers</h2>
       
       <div className="space-y-3">
-        {transfers.map((transfer) => {
+        {groupTransfers(transfers).map(({ transfer, files }) => {
           const isSending = transfer.senderId === currentDeviceId;
           const isCompleted = transfer.status === 'completed';
-          const isFailed = transfer.status === 'failed' || transfer.status === 'rejected';
+          const isIntegrityFailed = transfer.status === 'integrity-failed';
+          const isFailed = transfer.status === 'failed' || transfer.status === 'rejected' || transfer.status === 'expired' || isIntegrityFailed;
           
           const otherDeviceId = isSending ? transfer.receiverId : transfer.senderId;
           const otherDevice = availableDevices.find(d => d.deviceId === otherDeviceId);
@@ -61,6 +80,7 @@ export default function TransferHistory({
           
           const getStatusIcon = () => {
             if (isCompleted) return CheckCircle;
+            if (isIntegrityFailed) return ShieldAlert;
             return XCircle;
           };
           
@@ -71,6 +91,9 @@ export default function TransferHistory({
           
           const StatusIcon = getStatusIcon();
           const statusBgClass = getStatusBg();
+          // A batch summary carries the first file's stats, so batches show none
+          const stats = isCompleted && !files ? formatStats(transfer) : null;
+          const canZip = files && isCompleted && !isSending && onDownloadZip && canDownloadZip?.(files);
           
           return (
             <div key={transfer.id} className="flex items-center space-x-3">
@@ -81,6 +104,9 @@ export default function TransferHistory({
               <div className="flex-1 min-w-0">
                 <h4 className="text-sm font-medium text-foreground truncate">
                   {transfer.fileName}
+                  {files && (
+                    <span className="ml-1 text-xs font-normal text-muted-foreground">({files.length} files)</span>
+                  )}
                 </h4>
                 <p className="text-xs text-muted-foreground">
                   {isSending ? (
@@ -97,7 +123,17 @@ export default function TransferHistory({
                   <span className="font-medium">{otherDeviceName}</span> • {' '}
                   {formatTimeAgo(transfer.createdAt)}
                 </p>
+                {stats && (
+                  <p className="text-xs text-muted-foreground">{stats}</p>
+                )}
               </div>
+
+              {canZip && (
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" title="Download all as zip (built on this device; only until this page is reloaded)" onClick={() => onDownloadZip(files)}>
+                  <FileArchive className="mr-1" size={12} />
+                  ZIP
+                </Button>
+              )}
             </div>
           );
         })}
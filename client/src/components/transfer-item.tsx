@@ -1,12 +1,25 @@
-import { FileText, FileImage, File, X, CheckCircle } from "lucide-react";
+import { FileText, FileImage, File, Files, Folder, X, CheckCircle, Pause, Play } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { batchFolderName } from "@/lib/transfer-batches";
+import { formatSpeed, formatDuration } from "@/lib/transfer-speed";
 import type { Transfer, Device } from "@shared/schema";
 
 interface TransferItemProps {
   transfer: Transfer;
+  // Files of a batch; `transfer` then carries the batch's aggregate progress
+  files?: Transfer[];
+  // Bytes per second as measured on this device, 0 while nothing is moving
+  speed?: number;
+  // Set once the file went through the relay: whether the peer's relay key
+  // was signed by a paired device, or could have been swapped by the server
+  relayEncryption?: 'verified' | 'unverified';
   currentDeviceId: string;
   availableDevices: Device[];
+  // Either side can pause, resume or cancel an unfinished transfer
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel?: () => void;
 }
 
 const getFileIcon = (fileType: string) => {
@@ -29,18 +42,38 @@ const formatFileSize = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
 };
 
-export default function TransferItem({ transfer, currentDeviceId, availableDevices }: TransferItemProps) {
-  const FileIcon = getFileIcon(transfer.fileType);
+const getFileStatusLabel = (file: Transfer): string => {
+  switch (file.status) {
+    case 'completed': return 'Done';
+    case 'integrity-failed': return 'Corrupt';
+    case 'failed': return 'Failed';
+    case 'rejected': return 'Declined';
+    case 'expired': return 'Expired';
+    case 'cancelled': return 'Cancelled';
+    case 'paused': return 'Paused';
+    case 'transferring': return `${file.progress}%`;
+    default: return 'Waiting';
+  }
+};
+
+export default function TransferItem({ transfer, files, speed = 0, relayEncryption, currentDeviceId, availableDevices, onPause, onResume, onCancel }: TransferItemProps) {
+  const FileIcon = files ? (batchFolderName(files) ? Folder : Files) : getFileIcon(transfer.fileType);
   const iconBgClass = getFileIconBg(transfer.fileType);
   
   const isCompleted = transfer.status === 'completed';
-  const isFailed = transfer.status === 'failed';
+  const isIntegrityFailed = transfer.status === 'integrity-failed';
+  const isExpired = transfer.status === 'expired';
+  const isFailed = transfer.status === 'failed' || isIntegrityFailed || isExpired;
+  const isPaused = transfer.status === 'paused';
   const isSending = transfer.senderId === currentDeviceId;
   
   const otherDeviceId = isSending ? transfer.receiverId : transfer.senderId;
   const otherDevice = availableDevices.find(d => d.deviceId === otherDeviceId);
   const otherDeviceName = otherDevice?.name || 'Unknown Device';
 
+  const isMoving = transfer.status === 'transferring' && !isPaused && speed > 0;
+  const secondsLeft = isMoving ? Math.max(0, transfer.fileSize - transfer.bytesTransferred) / speed : 0;
+
   const getCardBgClass = () => {
     if (isCompleted) return 'bg-green-50 dark:bg-green-950/20';
     if (isFailed) return 'bg-red-50 dark:bg-red-950/20';
@@ -54,7 +87,7 @@ export default function TransferItem({ transfer, currentDeviceId, availableDevic
   };
 
   return (
-    <div className={`flex items-center space-x-4 p-4 rounded-lg ${getCardBgClass()}`}>
+    <div className={`flex ${files ? 'items-start' : 'items-center'} space-x-4 p-4 rounded-lg ${getCardBgClass()}`}>
       <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${iconBgClass}`}>
         <FileIcon size={20} />
       </div>
@@ -94,7 +127,7 @@ export default function TransferItem({ transfer, currentDeviceId, availableDevic
                 </div>
               </div>
               <span className="text-xs text-muted-foreground font-medium">
-                {transfer.progress}%
+                {isPaused ? 'Paused' : `${transfer.progress}%`}
               </span>
             </>
           )}
@@ -121,13 +154,26 @@ export default function TransferItem({ transfer, currentDeviceId, availableDevic
               <span className="text-green-600 dark:text-green-400 font-medium">Completed</span>
             )}
             {isFailed && (
-              <span className="text-red-600 dark:text-red-400 font-medium">Failed</span>
+              <span className="text-red-600 dark:text-red-400 font-medium">
+                {isIntegrityFailed ? 'Integrity check failed' : isExpired ? 'Not answered in time' : 'Failed'}
+              </span>
             )}
             {!isCompleted && !isFailed && (
               <span>{isSending ? 'Sending to' : 'Receiving from'}</span>
             )}
             {' '}
             <span className="font-medium">{otherDeviceName}</span>
+            {isMoving && (
+              <span> • {formatSpeed(speed)} • {formatDuration(secondsLeft)} left</span>
+            )}
+            {relayEncryption === 'verified' && (
+              <span> • Relayed, end-to-end encrypted</span>
+            )}
+            {relayEncryption === 'unverified' && (
+              <span className="text-amber-600 dark:text-amber-400" title="Pair the devices to verify the encryption keys">
+                {' '}• Relayed, encrypted with an unverified key
+              </span>
+            )}
           </p>
           
           {transfer.status === 'transferring' && !isCompleted && !isFailed && (
@@ -138,12 +184,45 @@ export default function TransferItem({ transfer, currentDeviceId, availableDevic
             </div>
           )}
         </div>
+
+        {files && (
+          <div className="mt-3 space-y-1 max-h-40 overflow-y-auto">
+            {files.map(file => (
+              <div key={file.transferId} className="flex items-center space-x-2 text-xs">
+                <span className="flex-1 truncate text-foreground">{file.relativePath || file.fileName}</span>
+                <span className="text-muted-foreground">{formatFileSize(file.fileSize)}</span>
+                <span className={`w-16 text-right ${
+                  file.status === 'completed' ? 'text-green-600 dark:text-green-400' :
+                  ['failed', 'integrity-failed', 'rejected', 'expired', 'cancelled'].includes(file.status) ? 'text-red-600 dark:text-red-400' :
+                  'text-muted-foreground'
+                }`}>
+                  {getFileStatusLabel(file)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
       
       {!isCompleted && !isFailed && (
-        <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-destructive">
-          <X size={16} />
-        </Button>
+        <div className="flex items-center">
+          {isPaused ? (
+            onResume && (
+              <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground" title="Resume" onClick={onResume}>
+                <Play size={16} />
+              </Button>
+            )
+          ) : (
+            onPause && (
+              <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground" title="Pause" onClick={onPause}>
+                <Pause size={16} />
+              </Button>
+            )
+          )}
+          <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-destructive" title="Cancel" onClick={onCancel}>
+            <X size={16} />
+          </Button>
+        </div>
       )}
     </div>
   );
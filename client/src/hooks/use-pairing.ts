@@ -0,0 +1,215 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import type { Device, WSError, WSMessage } from "@shared/schema";
+import {
+  getDeviceIdentity,
+  createPairingNonce,
+  pairingCommitment,
+  computeSas
+} from "@/lib/device-identity";
+import { addTrustedDevice } from "@/lib/trusted-devices";
+
+interface UsePairingProps {
+  deviceName: string;
+  sendMessage: (message: WSMessage) => void;
+}
+
+// requesting: initiator waiting for the peer to accept
+// incoming: responder deciding whether to pair
+// exchanging: responder waiting for the initiator to reveal its key
+// comparing: both sides show the code and wait for the user's verdict
+export type PairingStage = 'requesting' | 'incoming' | 'exchanging' | 'comparing' | 'cancelled';
+
+export interface PairingSession {
+  pairingId: string;
+  peerId: string;
+  peerName: string;
+  role: 'initiator' | 'responder';
+  stage: PairingStage;
+  sas?: string;
+  reason?: string;
+}
+
+// Key material for the session in progress, never rendered
+interface PairingSecrets {
+  nonce: string;
+  publicKey: string;
+  peerCommitment?: string;
+  peerPublicKey?: string;
+}
+
+export function usePairing({ deviceName, sendMessage }: UsePairingProps) {
+  const [session, setSession] = useState<PairingSession | null>(null);
+  const sessionRef = useRef<PairingSession | null>(null);
+  const secrets = useRef<PairingSecrets | null>(null);
+
+  const updateSession = useCallback((next: PairingSession | null) => {
+    sessionRef.current = next;
+    setSession(next);
+  }, []);
+
+  const cancel = useCallback((reason: string) => {
+    const current = sessionRef.current;
+    if (current && current.stage !== 'cancelled') {
+      sendMessage({ type: 'pair-cancel', pairingId: current.pairingId, peerId: current.peerId, reason });
+    }
+    secrets.current = null;
+    updateSession(null);
+  }, [sendMessage, updateSession]);
+
+  const startPairing = useCallback(async (device: Device) => {
+    if (sessionRef.current) return;
+
+    const { publicKey } = await getDeviceIdentity();
+    const nonce = createPairingNonce();
+    const pairingId = `pair_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    secrets.current = { nonce, publicKey };
+
+    updateSession({
+      pairingId,
+      peerId: device.deviceId,
+      peerName: device.name,
+      role: 'initiator',
+      stage: 'requesting'
+    });
+    sendMessage({
+      type: 'pair-request',
+      pairingId,
+      peerId: device.deviceId,
+      name: deviceName,
+      commitment: pairingCommitment(publicKey, nonce)
+    });
+  }, [deviceName, sendMessage, updateSession]);
+
+  const acceptPairing = useCallback(async () => {
+    const current = sessionRef.current;
+    if (!current || current.stage !== 'incoming' || !secrets.current) return;
+
+    const { publicKey } = await getDeviceIdentity();
+    const nonce = createPairingNonce();
+    secrets.current = { ...secrets.current, nonce, publicKey };
+
+    updateSession({ ...current, stage: 'exchanging' });
+    sendMessage({
+      type: 'pair-accept',
+      pairingId: current.pairingId,
+      peerId: current.peerId,
+      name: deviceName,
+      publicKey,
+      nonce
+    });
+  }, [deviceName, sendMessage, updateSession]);
+
+  // The user saw the same code on both screens
+  const confirmPairing = useCallback(() => {
+    const current = sessionRef.current;
+    if (!current || current.stage !== 'comparing' || !secrets.current?.peerPublicKey) return;
+
+    addTrustedDevice({
+      deviceId: current.peerId,
+      name: current.peerName,
+      publicKey: secrets.current.peerPublicKey,
+      pairedAt: Date.now()
+    });
+    console.log(`Paired with ${current.peerName} (${current.peerId})`);
+
+    secrets.current = null;
+    updateSession(null);
+  }, [updateSession]);
+
+  const handlePairingMessage = useCallback((message: WSMessage | WSError) => {
+    const current = sessionRef.current;
+
+    switch (message.type) {
+      // The server refused one of ours, e.g. because the device is in another room
+      case 'error': {
+        if (!current || current.pairingId !== message.transferId || current.stage === 'cancelled') return;
+        secrets.current = null;
+        updateSession({ ...current, stage: 'cancelled', reason: message.message });
+        return;
+      }
+
+      case 'pair-request': {
+        // One pairing at a time
+        if (current && current.stage !== 'cancelled') {
+          sendMessage({ type: 'pair-cancel', pairingId: message.pairingId, peerId: message.peerId, reason: 'Device is busy pairing' });
+          return;
+        }
+        secrets.current = { nonce: '', publicKey: '', peerCommitment: message.commitment };
+        updateSession({
+          pairingId: message.pairingId,
+          peerId: message.peerId,
+          peerName: message.name,
+          role: 'responder',
+          stage: 'incoming'
+        });
+        return;
+      }
+
+      case 'pair-accept': {
+        if (!current || current.pairingId !== message.pairingId || current.peerId !== message.peerId ||
+            current.stage !== 'requesting' || !secrets.current) return;
+
+        const mine = secrets.current;
+        secrets.current = { ...mine, peerPublicKey: message.publicKey };
+        sendMessage({
+          type: 'pair-reveal',
+          pairingId: current.pairingId,
+          peerId: current.peerId,
+          publicKey: mine.publicKey,
+          nonce: mine.nonce
+        });
+        updateSession({
+          ...current,
+          peerName: message.name,
+          stage: 'comparing',
+          sas: computeSas(mine, { publicKey: message.publicKey, nonce: message.nonce })
+        });
+        return;
+      }
+
+      case 'pair-reveal': {
+        if (!current || current.pairingId !== message.pairingId || current.peerId !== message.peerId ||
+            current.stage !== 'exchanging' || !secrets.current) return;
+
+        const mine = secrets.current;
+        if (pairingCommitment(message.publicKey, message.nonce) !== mine.peerCommitment) {
+          cancel('Key does not match the commitment');
+          updateSession({ ...current, stage: 'cancelled', reason: 'The other device changed its key mid-pairing' });
+          return;
+        }
+
+        secrets.current = { ...mine, peerPublicKey: message.publicKey };
+        updateSession({
+          ...current,
+          stage: 'comparing',
+          sas: computeSas({ publicKey: message.publicKey, nonce: message.nonce }, mine)
+        });
+        return;
+      }
+
+      case 'pair-cancel': {
+        if (!current || current.pairingId !== message.pairingId || current.peerId !== message.peerId ||
+            current.stage === 'cancelled') return;
+        secrets.current = null;
+        updateSession({ ...current, stage: 'cancelled', reason: message.reason || 'Pairing was cancelled' });
+        return;
+      }
+    }
+  }, [sendMessage, updateSession, cancel]);
+
+  useEffect(() => {
+    const listener = (event: Event) => handlePairingMessage((event as CustomEvent).detail);
+    window.addEventListener('pairing-message', listener);
+    return () => window.removeEventListener('pairing-message', listener);
+  }, [handlePairingMessage]);
+
+  return {
+    session,
+    startPairing,
+    acceptPairing,
+    confirmPairing,
+    // Decline, abort or report mismatching codes; the reason is shown to the peer
+    cancelPairing: (reason = 'Pairing was cancelled on the other device') => cancel(reason),
+    dismissPairing: () => updateSession(null)
+  };
+}
@@ -0,0 +1,77 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { textShareSchema, type TextShare, type WSMessage } from "@shared/schema";
+
+interface UseTextShareProps {
+  deviceId: string;
+  sendMessage: (message: WSMessage) => void;
+  // Sends over an open data channel to the device; false when there is none
+  sendOverDataChannel: (peerId: string, message: TextShare) => boolean;
+  onSendFailed?: (reason: string) => void;
+}
+
+export interface ReceivedText {
+  shareId: string;
+  senderId: string;
+  text: string;
+  receivedAt: number;
+}
+
+// Older snippets are dropped once this many are shown
+const MAX_RECEIVED_TEXTS = 20;
+
+export function useTextShare({ deviceId, sendMessage, sendOverDataChannel, onSendFailed }: UseTextShareProps) {
+  const [received, setReceived] = useState<ReceivedText[]>([]);
+  const onSendFailedRef = useRef(onSendFailed);
+  onSendFailedRef.current = onSendFailed;
+
+  // Prefer a data channel that is already open, so the text never touches the server
+  const sendText = useCallback((text: string, receiverId: string) => {
+    const message: TextShare = {
+      type: 'text-share',
+      shareId: `text_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      senderId: deviceId,
+      receiverId,
+      text
+    };
+
+    if (!sendOverDataChannel(receiverId, message)) {
+      sendMessage(message);
+    }
+    return message.shareId;
+  }, [deviceId, sendMessage, sendOverDataChannel]);
+
+  const dismissText = useCallback((shareId: string) => {
+    setReceived(prev => prev.filter(snippet => snippet.shareId !== shareId));
+  }, []);
+
+  const handleTextMessage = useCallback((message: any) => {
+    // The server could not deliver one of ours
+    if (message.type === 'error') {
+      onSendFailedRef.current?.(message.message);
+      return;
+    }
+
+    const parsed = textShareSchema.safeParse(message);
+    if (!parsed.success || parsed.data.receiverId !== deviceId) {
+      console.warn('Ignoring invalid text share');
+      return;
+    }
+
+    const { shareId, senderId, text } = parsed.data;
+    setReceived(prev => prev.some(snippet => snippet.shareId === shareId)
+      ? prev
+      : [{ shareId, senderId, text, receivedAt: Date.now() }, ...prev].slice(0, MAX_RECEIVED_TEXTS));
+  }, [deviceId]);
+
+  useEffect(() => {
+    const listener = (event: Event) => handleTextMessage((event as CustomEvent).detail);
+    window.addEventListener('text-message', listener);
+    return () => window.removeEventListener('text-message', listener);
+  }, [handleTextMessage]);
+
+  return {
+    received,
+    sendText,
+    dismissText
+  };
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import { getTrustedDevices, TRUSTED_DEVICES_CHANGE_EVENT, type TrustedDevice } from "@/lib/trusted-devices";
+
+// Current trusted-device list, kept in sync across components and tabs
+export function useTrustedDevices(): TrustedDevice[] {
+  const [devices, setDevices] = useState<TrustedDevice[]>(getTrustedDevices);
+
+  useEffect(() => {
+    const refresh = () => setDevices(getTrustedDevices());
+    window.addEventListener(TRUSTED_DEVICES_CHANGE_EVENT, refresh);
+    window.addEventListener('storage', refresh);
+    return () => {
+      window.removeEventListener(TRUSTED_DEVICES_CHANGE_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, []);
+
+  return devices;
+}
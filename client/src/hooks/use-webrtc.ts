@@ -1,6 +1,62 @@
 import { useState, useRef, useCallback, useEffect } from "react";
-import { createPeerConnection, createFileChunks, reassembleFile } from "@/lib/webrtc-utils";
-import type { WSMessage } from "@shared/schema";
+import {
+  createPeerConnection,
+  readFileChunk,
+  getTotalChunks,
+  ChunkBitmap,
+  countChunksInRanges,
+  CHUNK_SIZE,
+  type ChunkRange,
+  encodeChunkFrame,
+  decodeChunkFrame,
+  waitForChannelOpen,
+  FILE_CHANNEL_LABEL,
+  FILE_CHANNEL_OPTIONS,
+  CONTROL_CHANNEL_LABEL,
+  isFileChannel
+} from "@/lib/webrtc-utils";
+import { ChunkSendWindow, ChunkAckBatcher, ACK_WAIT, type ChunkAck } from "@/lib/chunk-window";
+import {
+  StripedChannels,
+  getChannelSetting,
+  getChannelLimit,
+  waitForChannelLimit,
+  type ChannelLimit
+} from "@/lib/striped-channels";
+import { uploadToRelay } from "@/lib/relay-upload";
+import { downloadFromRelay } from "@/lib/relay-download";
+import { RelayTokenStore } from "@/lib/relay-tokens";
+import { getIceServers } from "@/lib/ice-config";
+import { PeerNegotiator } from "@/lib/peer-negotiation";
+import { PeerPool, createConnectionId, type PooledPeer } from "@/lib/peer-pool";
+import { hashBlob } from "@/lib/file-hash";
+import { supportsDeviceIdentity, signOffer, signAnswer } from "@/lib/device-identity";
+import { isTrustedOffer, isTrustedAnswer } from "@/lib/trusted-devices";
+import {
+  supportsRelayEncryption,
+  generateRelayKeyPair,
+  exportRelayPublicKey,
+  deriveRelayKey,
+  decryptedSize,
+  EncryptedFileSource,
+  DecryptingSink,
+  RELAY_ENCRYPTION
+} from "@/lib/relay-crypto";
+import {
+  createFileSink,
+  pickFileSystemSink,
+  pickDirectory,
+  openDirectorySink,
+  triggerDownload,
+  MEMORY_SINK_LIMIT,
+  type FileSink
+} from "@/lib/file-sink";
+import { createZip, type ZipEntry } from "@/lib/zip";
+import { ThroughputMeter, PROGRESS_REPORT_INTERVAL } from "@/lib/transfer-speed";
+import { batchFolderName } from "@/lib/transfer-batches";
+import { textShareSchema, type BatchFile, type Transfer, type RelayTokenScope, type TextShare, type Transport, type WSMessage } from "@shared/schema";
+
+type SignalingMessage = Extract<WSMessage, { type: 'webrtc-offer' | 'webrtc-answer' | 'webrtc-ice-candidate' }>;
 
 interface UseWebRTCProps {
   deviceId: string;
@@ -17,12 +73,75 @@ interface TransferState {
   receiverId: string;
   status: string;
   progress: number;
+  bytesTransferred?: number;
+  // This side's estimate in bytes per second while bytes are moving
+  speed?: number;
+  meter?: ThroughputMeter;
+  // When progress was last passed on to the server
+  lastReportAt?: number;
+  // The pooled connection this entry's channels are on
   peerConnection?: RTCPeerConnection;
+  connectionId?: string;
   dataChannel?: RTCDataChannel;
+  controlChannel?: RTCDataChannel;
+  // File channels opened after the first one to stripe chunks across
+  fileChannels?: RTCDataChannel[];
+  // Sender side: how many file channels the receiver accepts
+  channelLimit?: Promise<number>;
   file?: File;
-  chunks?: ArrayBuffer[];
+  chunkSize?: number;
   totalChunks?: number;
-  receivedChunks?: number;
+  receivedChunks?: ChunkBitmap;
+  sink?: FileSink;
+  // Sender side: chunks of this file not yet confirmed by the receiver
+  sendWindow?: ChunkSendWindow;
+  // Receiver side: confirmations of stored chunks waiting to go out
+  ackBatcher?: ChunkAckBatcher;
+  // Sender side: the only chunks to send on the next connection after a resume
+  resumeRanges?: ChunkRange[];
+  // Receiver side: hex SHA-256 announced by the sender in the metadata
+  expectedSha256?: string;
+  // A batch is tracked as one entry owning the peer connection, listing its
+  // files; each file entry points back at the batch
+  batchFiles?: string[];
+  batchId?: string;
+  relativePath?: string;
+  // Receiver side, on the batch entry: where a received folder is recreated.
+  // A folder without one is handed over as a zip once complete.
+  directory?: FileSystemDirectoryHandle;
+  folderName?: string;
+  // Set on the entry owning the connection while either side has paused it
+  paused?: boolean;
+  // The file went (or is going) through the relay
+  viaRelay?: boolean;
+  // The peer's relay key carried a signature from the identity key we paired
+  // with; otherwise the server could have swapped it
+  relayKeyVerified?: boolean;
+}
+
+interface IncomingOffer {
+  transferId: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  senderId?: string;
+  // Sender's ECDH public key for encrypting relayed data
+  publicKey?: string;
+  // Sender's identity-key signature over the offer, including publicKey
+  signature?: string;
+}
+
+interface IncomingBatchOffer {
+  batchId: string;
+  senderId: string;
+  files: BatchFile[];
+  totalSize: number;
+  publicKey?: string;
+  signature?: string;
+}
+
+function createTransferId() {
+  return `transfer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
 export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebRTCProps) {
@@ -30,26 +149,234 @@ export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebR
   const transfersRef = useRef<Record<string, TransferState>>({});
   const fallbackTriggered = useRef<Set<string>>(new Set());
   const downloadTriggered = useRef<Set<string>>(new Set());
+  // Save locations chosen by the user while accepting, keyed by transferId
+  const pendingSinks = useRef<Map<string, FileSink>>(new Map());
+  // Files of a folder received without a directory, zipped once all arrive
+  const folderEntries = useRef<Map<string, Array<ZipEntry & { sink: FileSink }>>>(new Map());
+  // Sender side SHA-256 of each outgoing file, started as soon as it is offered
+  const fileHashes = useRef<Map<string, Promise<string>>>(new Map());
+  // Sender side key pairs waiting for the receiver's public key, and the
+  // derived per-transfer keys used to encrypt relayed data on both sides
+  const relayKeyPairs = useRef<Map<string, CryptoKeyPair>>(new Map());
+  const relayKeys = useRef<Map<string, CryptoKey>>(new Map());
+  const relayTokens = useRef(new RelayTokenStore());
+  // Running relay uploads and downloads by file, aborted on pause or cancel
+  const relayAborts = useRef<Map<string, AbortController>>(new Map());
+  // One peer connection per remote device, shared by the transfers between us
+  const peerPool = useRef(new PeerPool());
+  // Candidates that arrived before the answering side set up the connection, by connectionId
+  const earlyCandidates = useRef<Map<string, RTCIceCandidateInit[]>>(new Map());
+  // Released when a pause ends, keyed by the entry owning the connection
+  const pauseGates = useRef<Map<string, { promise: Promise<void>; release: () => void }>>(new Map());
 
   // Keep refs in sync
   useEffect(() => {
     transfersRef.current = transfers;
   }, [transfers]);
 
+  useEffect(() => {
+    const pool = peerPool.current;
+    return () => pool.closeAll();
+  }, []);
+
+  // The ref is updated synchronously so data channel handlers firing between
+  // renders always see the latest chunk bookkeeping
   const updateTransfer = useCallback((transferId: string, updates: Partial<TransferState>) => {
-    setTransfers(prev => {
-      const updated = {
-        ...prev,
-        [transferId]: { ...prev[transferId], ...updates }
-      };
-      transfersRef.current = updated;
-      return updated;
+    const updated = {
+      ...transfersRef.current,
+      [transferId]: { ...transfersRef.current[transferId], ...updates }
+    };
+    transfersRef.current = updated;
+    setTransfers(updated);
+  }, []);
+
+  // Record the bytes of a file moved so far. React hears about every whole
+  // percent and the estimate is refreshed at least once per
+  // PROGRESS_REPORT_INTERVAL, which is also as often as the server hears
+  // about it. The last bytes are left to transfer-complete.
+  const reportProgress = useCallback((transferId: string, bytesTransferred: number, notifyServer = true) => {
+    const transfer = transfersRef.current[transferId];
+    if (!transfer) return;
+
+    const now = Date.now();
+    const meter = transfer.meter ?? new ThroughputMeter(now);
+    meter.record(bytesTransferred, now);
+    if (!transfer.meter) {
+      updateTransfer(transferId, { meter });
+    }
+
+    const progress = transfer.fileSize > 0 ? Math.floor((bytesTransferred / transfer.fileSize) * 100) : 100;
+    const due = now - (transfer.lastReportAt ?? 0) >= PROGRESS_REPORT_INTERVAL;
+    if (progress === transfer.progress && !due) return;
+
+    updateTransfer(transferId, {
+      progress,
+      bytesTransferred,
+      speed: meter.speed,
+      ...(due && { lastReportAt: now })
     });
+    if (due && notifyServer && bytesTransferred < transfer.fileSize) {
+      sendMessage({ type: 'transfer-progress', transferId, progress, bytesTransferred });
+    }
+  }, [updateTransfer, sendMessage]);
+
+  // Final state of a finished file, also sent to the server for the history
+  const completeProgress = useCallback((transferId: string, transport: Transport) => {
+    const transfer = transfersRef.current[transferId];
+    const bytesTransferred = transfer?.fileSize ?? 0;
+    const durationMs = transfer?.meter?.durationMs(Date.now());
+    updateTransfer(transferId, { progress: 100, bytesTransferred, speed: undefined });
+    return { bytesTransferred, durationMs, transport };
+  }, [updateTransfer]);
+
+  // Paused or cancelled by either side; a file of a batch follows its batch
+  const isStopped = useCallback((transferId: string) => {
+    const transfer = transfersRef.current[transferId];
+    const owner = transfer?.batchId ? transfersRef.current[transfer.batchId] : transfer;
+    return Boolean(owner?.paused || transfer?.status === 'cancelled' || owner?.status === 'cancelled');
+  }, []);
+
+  // Park a sending loop or relay request until the pause ends; a cancel releases it too
+  const waitWhilePaused = useCallback(async (ownerId: string) => {
+    while (transfersRef.current[ownerId]?.paused) {
+      let gate = pauseGates.current.get(ownerId);
+      if (!gate) {
+        let release = () => {};
+        const promise = new Promise<void>(resolve => { release = resolve; });
+        gate = { promise, release };
+        pauseGates.current.set(ownerId, gate);
+      }
+      await gate.promise;
+    }
+  }, []);
+
+  const releasePaused = useCallback((ownerId: string) => {
+    pauseGates.current.get(ownerId)?.release();
+    pauseGates.current.delete(ownerId);
+  }, []);
+
+  const getFileHash = useCallback((transferId: string, file: File) => {
+    let hash = fileHashes.current.get(transferId);
+    if (!hash) {
+      hash = hashBlob(file);
+      fileHashes.current.set(transferId, hash);
+    }
+    return hash;
+  }, []);
+
+  const getRelayToken = useCallback((transferId: string, scope: RelayTokenScope) => {
+    return relayTokens.current.take(transferId, scope, () => {
+      sendMessage({ type: 'relay-token-request', transferId, scope });
+    });
+  }, [sendMessage]);
+
+  const loadIceServers = useCallback(() => {
+    return getIceServers(deviceId, () => getRelayToken(deviceId, 'ice'));
+  }, [deviceId, getRelayToken]);
+
+  // Check the assembled file against the sender's hash before handing it to
+  // the user. Returns false (and reports the failure) when they differ.
+  const deliverReceivedFile = useCallback(async (transferId: string, sink: FileSink, expectedSha256?: string | null) => {
+    const fileName = transfersRef.current[transferId]?.fileName || 'download';
+    const blob = await sink.close();
+
+    if (expectedSha256) {
+      const actualSha256 = await hashBlob(blob);
+      if (actualSha256 !== expectedSha256.toLowerCase()) {
+        console.error(`Integrity check failed for ${fileName}: expected ${expectedSha256}, got ${actualSha256}`);
+        await sink.dispose().catch(() => undefined);
+        updateTransfer(transferId, { status: 'integrity-failed', sink: undefined });
+        sendMessage({
+          type: 'transfer-error',
+          transferId,
+          error: 'Received file does not match the SHA-256 announced by the sender',
+          code: 'integrity-failed'
+        });
+        return false;
+      }
+    }
+
+    // Data written through the File System Access API is already on disk
+    if (!sink.savesToDisk) {
+      const transfer = transfersRef.current[transferId];
+      const batch = transfer?.batchId ? transfersRef.current[transfer.batchId] : undefined;
+      if (batch?.folderName && !batch.directory) {
+        const entries = folderEntries.current.get(batch.transferId) ?? [];
+        entries.push({ path: transfer.relativePath || fileName, blob, sink });
+        folderEntries.current.set(batch.transferId, entries);
+      } else {
+        triggerDownload(blob, fileName, () => sink.dispose());
+        console.log(`Download triggered for: ${fileName}`);
+      }
+    }
+    return true;
+  }, [updateTransfer, sendMessage]);
+
+  // A batch is done once its last file is; a folder that was not written
+  // into a directory is then downloaded as one zip
+  const completeBatchFile = useCallback(async (transfer: TransferState) => {
+    const batch = transfer.batchId ? transfersRef.current[transfer.batchId] : undefined;
+    if (!batch?.batchFiles?.every(id => transfersRef.current[id]?.status === 'completed')) return;
+
+    updateTransfer(batch.transferId, { status: 'completed', progress: 100 });
+    releasePeerConnection(batch.transferId);
+
+    const entries = folderEntries.current.get(batch.transferId);
+    folderEntries.current.delete(batch.transferId);
+    if (!entries) return;
+
+    const disposeAll = () => entries.forEach(entry => entry.sink.dispose());
+    try {
+      triggerDownload(await createZip(entries), `${batch.folderName}.zip`, disposeAll);
+      console.log(`Download triggered for: ${batch.folderName}.zip`);
+    } catch (error) {
+      console.error(`Cannot zip ${batch.folderName}, downloading its files one by one:`, error);
+      for (const entry of entries) {
+        triggerDownload(entry.blob, entry.path.split('/').pop()!, () => entry.sink.dispose());
+      }
+    }
+  }, [updateTransfer]);
+
+  // Where a received file is written: a save location picked while accepting,
+  // its place in the directory chosen for a folder, or a buffer otherwise
+  const openReceiveSink = useCallback(async (transferId: string, fileSize: number, fileType: string) => {
+    const picked = pendingSinks.current.get(transferId);
+    if (picked) {
+      pendingSinks.current.delete(transferId);
+      return picked;
+    }
+
+    const transfer = transfersRef.current[transferId];
+    const directory = transfer?.batchId ? transfersRef.current[transfer.batchId]?.directory : undefined;
+    if (directory) {
+      try {
+        return await openDirectorySink(directory, transfer.relativePath || transfer.fileName);
+      } catch (error) {
+        console.error(`Cannot write ${transfer.relativePath || transfer.fileName} into the chosen folder:`, error);
+      }
+    }
+    return createFileSink(transferId, fileSize, fileType);
   }, []);
 
   const handleWebRTCMessage = useCallback(async (event: CustomEvent) => {
     const message = event.detail;
-    let transfer = transfersRef.current[message.transferId];
+    const transfer = transfersRef.current[message.transferId];
+
+    if (message.type === 'relay-token') {
+      relayTokens.current.put(message.transferId, message.scope, message.token, message.expiresAt);
+      // Sent on registration: have the ICE servers at hand before the first
+      // connection needs them
+      if (message.scope === 'ice') {
+        loadIceServers();
+      }
+      return;
+    }
+
+    // Signaling belongs to a pooled connection rather than to one transfer
+    if (message.type === 'webrtc-offer' || message.type === 'webrtc-answer' || message.type === 'webrtc-ice-candidate') {
+      await handleSignaling(message);
+      return;
+    }
     
     // For transfer-complete, handle auto-download for receiving devices
     if (message.type === 'transfer-complete') {
@@ -72,69 +399,148 @@ export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebR
       return;
     }
     
-    // For webrtc-offer, we need to create the transfer record if it doesn't exist (receiver side)
-    if (!transfer && message.type === 'webrtc-offer') {
-      // This must be from a transfer-offer that was accepted
-      // We need to create a minimal transfer record for the receiver
-      const receiverTransfer: TransferState = {
-        transferId: message.transferId,
-        fileName: 'Incoming file', // Will be updated when metadata arrives
-        fileSize: 0, // Will be updated when metadata arrives
-        fileType: 'application/octet-stream', // Will be updated when metadata arrives
-        senderId: '', // Will be determined from WebRTC
-        receiverId: deviceId,
-        status: 'connecting',
-        progress: 0,
-        chunks: [],
-        receivedChunks: 0,
-        totalChunks: 0
-      };
-      
-      updateTransfer(message.transferId, receiverTransfer);
-      transfer = receiverTransfer;
-    }
-    
     if (!transfer) return;
 
     switch (message.type) {
       case 'transfer-answer':
         if (message.accepted) {
+          const keyPair = relayKeyPairs.current.get(message.transferId);
+          relayKeyPairs.current.delete(message.transferId);
+          if (keyPair && message.publicKey) {
+            try {
+              const relayKeyVerified = await isTrustedAnswer({
+                transferId: message.transferId,
+                senderId: deviceId,
+                receiverId: transfer.receiverId,
+                publicKey: message.publicKey,
+                signature: message.signature
+              });
+              // Each file of a batch gets its own key, salted with its transferId
+              for (const id of transfer.batchFiles ?? [message.transferId]) {
+                relayKeys.current.set(id, await deriveRelayKey(keyPair, message.publicKey, id));
+                updateTransfer(id, { relayKeyVerified });
+              }
+            } catch (error) {
+              console.error('Failed to derive relay key:', error);
+            }
+          }
           await initiateWebRTCConnection(transfer);
         } else {
-          updateTransfer(message.transferId, { status: 'rejected' });
+          for (const id of [...(transfer.batchFiles ?? []), message.transferId]) {
+            updateTransfer(id, { status: 'rejected' });
+          }
         }
         break;
       
-      case 'webrtc-offer':
-        await handleWebRTCOffer(transfer, message.offer);
+      case 'transfer-resume':
+        // Without ranges the peer ended a pause
+        if (!message.missingRanges) {
+          resumeLocally(message.transferId);
+        } else {
+          await handleTransferResume(transfer, message.missingRanges, message.files);
+        }
         break;
-      
-      case 'webrtc-answer':
-        await handleWebRTCAnswer(transfer, message.answer);
+
+      case 'transfer-pause':
+        pauseLocally(message.transferId);
         break;
-      
-      case 'webrtc-ice-candidate':
-        await handleICECandidate(transfer, message.candidate);
+
+      case 'transfer-cancel':
+        await cancelLocally(message.transferId);
+        break;
+
+      case 'transfer-expired':
+        // Nobody answered the offer; there is nothing left to send
+        relayKeyPairs.current.delete(message.transferId);
+        for (const id of [...(transfer.batchFiles ?? []), message.transferId]) {
+          updateTransfer(id, { status: 'expired', file: undefined });
+        }
         break;
     }
   }, [deviceId, updateTransfer]);
 
+  // Close a transfer's channels without triggering their failure handlers and
+  // hand its connection back to the pool, which closes it once it stays unused
+  const releasePeerConnection = useCallback((transferId: string) => {
+    const transfer = transfersRef.current[transferId];
+    if (!transfer) return;
+
+    for (const channel of [transfer.dataChannel, transfer.controlChannel, ...(transfer.fileChannels ?? [])]) {
+      if (!channel) continue;
+      channel.onclose = null;
+      channel.onerror = null;
+      // Closing the channel itself releases a sender blocked on its send buffer
+      channel.close();
+    }
+    peerPool.current.detach(transferId);
+
+    updateTransfer(transferId, {
+      peerConnection: undefined,
+      connectionId: undefined,
+      dataChannel: undefined,
+      controlChannel: undefined,
+      fileChannels: undefined,
+      channelLimit: undefined
+    });
+  }, [updateTransfer]);
+
   const fallbackToServerTransfer = useCallback(async (transfer: TransferState) => {
+    // Files of a batch are relayed one after another, each as its own upload
+    if (transfer.batchFiles) {
+      if (['transferring', 'completed', 'failed'].includes(transfer.status) ||
+          fallbackTriggered.current.has(transfer.transferId) || isStopped(transfer.transferId)) {
+        return;
+      }
+      fallbackTriggered.current.add(transfer.transferId);
+      updateTransfer(transfer.transferId, { status: 'transferring', viaRelay: true });
+
+      for (const fileId of transfer.batchFiles) {
+        await waitWhilePaused(transfer.transferId);
+        if (isStopped(transfer.transferId)) return;
+        const file = transfersRef.current[fileId];
+        if (file) {
+          await fallbackToServerTransfer(file);
+        }
+      }
+      if (isStopped(transfer.transferId)) return;
+
+      const delivered = transfer.batchFiles.every(id => transfersRef.current[id]?.status === 'completed');
+      updateTransfer(transfer.transferId, delivered ? { status: 'completed', progress: 100 } : { status: 'failed' });
+      return;
+    }
+
     // 防重复处理：确保每个传输只会触发一次服务器中继
     if (!transfer.file || 
         transfer.status === 'transferring' || 
         transfer.status === 'completed' ||
         transfer.status === 'failed' ||
-        fallbackTriggered.current.has(transfer.transferId)) {
+        fallbackTriggered.current.has(transfer.transferId) ||
+        isStopped(transfer.transferId)) {
       console.log(`Skipping fallback for ${transfer.transferId} - already processed or in progress`);
       return;
     }
     
+    // The relay must only ever see ciphertext, so a file is not relayed
+    // unless both sides agreed on a key (both need a secure context)
+    const relayKey = relayKeys.current.get(transfer.transferId);
+    if (!relayKey) {
+      console.error(`No relay key for ${transfer.transferId}, refusing to relay it unencrypted`);
+      updateTransfer(transfer.transferId, { status: 'failed' });
+      sendMessage({
+        type: 'transfer-error',
+        transferId: transfer.transferId,
+        error: 'No direct connection, and the relay is only used with end-to-end encryption'
+      });
+      return;
+    }
+
     // 标记中继已启动，防止重复触发
     fallbackTriggered.current.add(transfer.transferId);
     
     console.log(`Using server fallback for ${transfer.transferId} - ensuring 100% delivery success`);
-    updateTransfer(transfer.transferId, { status: 'transferring', progress: 10 });
+    updateTransfer(transfer.transferId, { status: 'transferring', progress: 0, viaRelay: true });
+    let controller = new AbortController();
+    relayAborts.current.set(transfer.transferId, controller);
     
     // 多重重试机制：确保在各种网络环境和服务器负载情况下都能成功
     let retryCount = 0;
@@ -143,48 +549,48 @@ export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebR
     while (retryCount < maxRetries) {
       try {
         console.log(`Server upload attempt ${retryCount + 1}/${maxRetries} for ${transfer.fileName} (${transfer.fileSize} bytes)`);
-        
-        // 添加请求超时控制，防止长时间hanging
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => {
-          controller.abort();
-          console.log('Upload request timed out after 30 seconds');
-        }, 30000);
-        
-        const response = await fetch(`/api/transfer/${transfer.transferId}/upload`, {
-          method: 'POST',
-          headers: {
-            'X-Filename': encodeURIComponent(transfer.fileName),
-            'Content-Type': transfer.fileType,
-            'X-Transfer-Id': transfer.transferId,
-            'X-Retry-Count': retryCount.toString(),
-            'X-Client-Timestamp': Date.now().toString()
-          },
-          body: transfer.file,
-          signal: controller.signal
+
+        // Each attempt resumes from the offset the relay reports, so nothing is re-sent
+        await uploadToRelay(transfer.transferId, new EncryptedFileSource(transfer.file, relayKey), {
+          fileName: transfer.fileName,
+          fileType: transfer.fileType,
+          relativePath: transfer.relativePath,
+          encryption: RELAY_ENCRYPTION,
+          getToken: () => getRelayToken(transfer.transferId, 'upload'),
+          signal: controller.signal,
+          // Encryption adds a little per chunk, so scale back to plaintext bytes
+          onProgress: (uploaded, total) => {
+            reportProgress(transfer.transferId, total > 0 ? Math.floor((uploaded / total) * transfer.fileSize) : 0);
+          }
         });
+
+        console.log(`Server upload successful on attempt ${retryCount + 1}`);
+        relayAborts.current.delete(transfer.transferId);
+        // The server records the relay as transport; the receiver reports the timing
+        completeProgress(transfer.transferId, 'relay');
+        updateTransfer(transfer.transferId, { status: 'completed' });
+        relayTokens.current.forget(transfer.transferId);
+        onTransferComplete(transfer.transferId);
         
-        clearTimeout(timeoutId);
-        console.log(`Server upload response: ${response.status} ${response.statusText}`);
+        // 成功后清理追踪记录
+        setTimeout(() => {
+          fallbackTriggered.current.delete(transfer.transferId);
+        }, 5000);
+        return; // 成功后立即退出重试循环
         
-        if (response.ok) {
-          const result = await response.json();
-          console.log(`Server upload successful on attempt ${retryCount + 1}:`, result);
-          updateTransfer(transfer.transferId, { status: 'completed', progress: 100 });
-          onTransferComplete(transfer.transferId);
-          
-          // 成功后清理追踪记录
-          setTimeout(() => {
+      } catch (error) {
+        // Paused: the relay keeps what it has, so carry on from there once the pause ends
+        if (controller.signal.aborted) {
+          await waitWhilePaused(transfer.batchId ?? transfer.transferId);
+          if (isStopped(transfer.transferId)) {
             fallbackTriggered.current.delete(transfer.transferId);
-          }, 5000);
-          return; // 成功后立即退出重试循环
-        } else {
-          // 服务器返回错误状态，解析具体错误信息
-          const errorText = await response.text();
-          throw new Error(`HTTP ${response.status}: ${errorText}`);
+            return;
+          }
+          controller = new AbortController();
+          relayAborts.current.set(transfer.transferId, controller);
+          continue;
         }
-        
-      } catch (error) {
+
         retryCount++;
         const errorObj = error as Error;
         const isAbortError = errorObj?.name === 'AbortError';
@@ -200,6 +606,7 @@ export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebR
         if (isLastAttempt) {
           // 所有重试失败，记录详细错误信息
           console.error(`All ${maxRetries} upload attempts failed for ${transfer.transferId}`);
+          relayAborts.current.delete(transfer.transferId);
           updateTransfer(transfer.transferId, { 
             status: 'failed', 
             progress: 0
@@ -212,17 +619,13 @@ export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebR
         const backoffDelay = Math.min(Math.pow(2, retryCount - 1) * 1000, 8000); // 最大8秒
         console.log(`Retrying upload in ${backoffDelay}ms (attempt ${retryCount + 1}/${maxRetries})`);
         
-        // 更新传输进度，显示重试状态
-        updateTransfer(transfer.transferId, { 
-          progress: 10 + (retryCount * 20), // 每次重试增加20%进度
-          status: 'transferring'
-        });
+        updateTransfer(transfer.transferId, { status: 'transferring' });
         
         // 等待后重试
         await new Promise(resolve => setTimeout(resolve, backoffDelay));
       }
     }
-  }, [updateTransfer, onTransferComplete]);
+  }, [updateTransfer, sendMessage, onTransferComplete, getRelayToken, loadIceServers, isStopped, waitWhilePaused, reportProgress, completeProgress]);
 
   useEffect(() => {
     const eventHandler = (event: Event) => handleWebRTCMessage(event as CustomEvent);
@@ -233,7 +636,7 @@ export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebR
   }, [handleWebRTCMessage]);
 
   const sendFile = useCallback(async (file: File, receiverId: string) => {
-    const transferId = `transfer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const transferId = createTransferId();
     
     const transfer: TransferState = {
       transferId,
@@ -249,16 +652,43 @@ export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebR
 
     updateTransfer(transferId, transfer);
 
-    // Send transfer offer and wait for user acceptance
-    sendMessage({
-      type: 'transfer-offer',
+    // Hash while the receiver decides; the digest travels with the file metadata
+    getFileHash(transferId, file).catch(error => console.error(`Failed to hash ${file.name}:`, error));
+
+    // Our half of the key exchange for encrypting relayed data
+    let publicKey: string | undefined;
+    if (supportsRelayEncryption()) {
+      try {
+        const keyPair = await generateRelayKeyPair();
+        publicKey = await exportRelayPublicKey(keyPair);
+        relayKeyPairs.current.set(transferId, keyPair);
+      } catch (error) {
+        console.error('Failed to generate relay key pair:', error);
+      }
+    }
+
+    const offer = {
       transferId,
       fileName: file.name,
       fileSize: file.size,
       fileType: file.type,
       senderId: deviceId,
-      receiverId
-    });
+      receiverId,
+      publicKey
+    };
+
+    // Paired receivers check this to auto-accept
+    let signature: string | undefined;
+    if (supportsDeviceIdentity()) {
+      try {
+        signature = await signOffer(offer);
+      } catch (error) {
+        console.error('Failed to sign transfer offer:', error);
+      }
+    }
+
+    // Send transfer offer and wait for user acceptance
+    sendMessage({ type: 'transfer-offer', ...offer, signature });
 
     console.log(`Transfer offer sent for ${file.name}, waiting for user response`);
     
@@ -266,15 +696,201 @@ export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebR
     // The connection will be initiated when we receive the acceptance
 
     return transferId;
-  }, [deviceId, sendMessage, updateTransfer]);
+  }, [deviceId, sendMessage, updateTransfer, getFileHash]);
+
+  // Offer several files at once: the receiver accepts them with one prompt and
+  // they are sent one after another over a single peer connection
+  const sendBatch = useCallback(async (files: File[], receiverId: string) => {
+    const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const manifest: BatchFile[] = files.map(file => ({
+      transferId: createTransferId(),
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      relativePath: file.webkitRelativePath || undefined
+    }));
+    const totalSize = files.reduce((total, file) => total + file.size, 0);
+
+    manifest.forEach((entry, index) => {
+      const file = files[index];
+      updateTransfer(entry.transferId, {
+        transferId: entry.transferId,
+        fileName: entry.fileName,
+        fileSize: entry.fileSize,
+        fileType: entry.fileType,
+        senderId: deviceId,
+        receiverId,
+        status: 'pending',
+        progress: 0,
+        file,
+        batchId,
+        relativePath: entry.relativePath
+      });
+      getFileHash(entry.transferId, file).catch(error => console.error(`Failed to hash ${file.name}:`, error));
+    });
+
+    updateTransfer(batchId, {
+      transferId: batchId,
+      fileName: batchFolderName(manifest) ?? `${files.length} files`,
+      fileSize: totalSize,
+      fileType: '',
+      senderId: deviceId,
+      receiverId,
+      status: 'pending',
+      progress: 0,
+      batchFiles: manifest.map(entry => entry.transferId)
+    });
+
+    // One key pair for the batch; a key per file is derived from it
+    let publicKey: string | undefined;
+    if (supportsRelayEncryption()) {
+      try {
+        const keyPair = await generateRelayKeyPair();
+        publicKey = await exportRelayPublicKey(keyPair);
+        relayKeyPairs.current.set(batchId, keyPair);
+      } catch (error) {
+        console.error('Failed to generate relay key pair:', error);
+      }
+    }
+
+    const offer = { batchId, senderId: deviceId, receiverId, files: manifest, totalSize, publicKey };
+
+    let signature: string | undefined;
+    if (supportsDeviceIdentity()) {
+      try {
+        signature = await signOffer(offer);
+      } catch (error) {
+        console.error('Failed to sign batch offer:', error);
+      }
+    }
+
+    sendMessage({ type: 'batch-offer', ...offer, signature });
+    console.log(`Batch offer sent for ${files.length} files, waiting for user response`);
+
+    return batchId;
+  }, [deviceId, sendMessage, updateTransfer, getFileHash]);
+
+  // Lets a paired sender check that our relay key reached it unchanged
+  const signRelayKey = useCallback(async (transferId: string, senderId: string, publicKey: string) => {
+    if (!supportsDeviceIdentity()) return undefined;
+    try {
+      return await signAnswer({ transferId, senderId, receiverId: deviceId, publicKey });
+    } catch (error) {
+      console.error('Failed to sign transfer answer:', error);
+      return undefined;
+    }
+  }, [deviceId]);
+
+  // Call from the Accept click handler: large files are written straight to a
+  // user-chosen file when the File System Access API is available
+  const acceptTransfer = useCallback(async (offer: IncomingOffer) => {
+    if (offer.fileSize > MEMORY_SINK_LIMIT) {
+      const sink = await pickFileSystemSink(offer.fileName);
+      if (sink) {
+        pendingSinks.current.set(offer.transferId, sink);
+      }
+    }
+
+    // Track the transfer from here on, so a relayed file can be received even
+    // if no peer connection is ever offered
+    if (!transfersRef.current[offer.transferId]) {
+      updateTransfer(offer.transferId, {
+        transferId: offer.transferId,
+        fileName: offer.fileName,
+        fileSize: offer.fileSize,
+        fileType: offer.fileType,
+        senderId: offer.senderId || '',
+        receiverId: deviceId,
+        status: 'accepted',
+        progress: 0
+      });
+    }
+
+    let publicKey: string | undefined;
+    if (offer.publicKey && supportsRelayEncryption()) {
+      try {
+        const keyPair = await generateRelayKeyPair();
+        relayKeys.current.set(offer.transferId, await deriveRelayKey(keyPair, offer.publicKey, offer.transferId));
+        publicKey = await exportRelayPublicKey(keyPair);
+        updateTransfer(offer.transferId, {
+          relayKeyVerified: await isTrustedOffer({ ...offer, senderId: offer.senderId || '', receiverId: deviceId })
+        });
+      } catch (error) {
+        console.error('Failed to derive relay key:', error);
+      }
+    }
 
-  const acceptTransfer = useCallback((transferId: string) => {
     sendMessage({
       type: 'transfer-answer',
-      transferId,
-      accepted: true
+      transferId: offer.transferId,
+      accepted: true,
+      publicKey,
+      signature: publicKey && await signRelayKey(offer.transferId, offer.senderId || '', publicKey)
+    });
+  }, [deviceId, sendMessage, updateTransfer, signRelayKey]);
+
+  // Call from the Accept click handler too: a folder is written into a
+  // directory the user picks, or zipped when none is picked
+  const acceptBatch = useCallback(async (offer: IncomingBatchOffer) => {
+    const folderName = batchFolderName(offer.files);
+    const directory = folderName ? await pickDirectory() : null;
+
+    for (const file of offer.files) {
+      if (!transfersRef.current[file.transferId]) {
+        updateTransfer(file.transferId, {
+          transferId: file.transferId,
+          fileName: file.fileName,
+          fileSize: file.fileSize,
+          fileType: file.fileType,
+          senderId: offer.senderId,
+          receiverId: deviceId,
+          status: 'accepted',
+          progress: 0,
+          batchId: offer.batchId,
+          relativePath: file.relativePath
+        });
+      }
+    }
+
+    updateTransfer(offer.batchId, {
+      transferId: offer.batchId,
+      fileName: folderName ?? `${offer.files.length} files`,
+      fileSize: offer.totalSize,
+      fileType: '',
+      senderId: offer.senderId,
+      receiverId: deviceId,
+      status: 'accepted',
+      progress: 0,
+      batchFiles: offer.files.map(file => file.transferId),
+      directory: directory ?? undefined,
+      folderName
     });
-  }, [sendMessage]);
+
+    let publicKey: string | undefined;
+    if (offer.publicKey && supportsRelayEncryption()) {
+      try {
+        const keyPair = await generateRelayKeyPair();
+        const relayKeyVerified = await isTrustedOffer({ ...offer, receiverId: deviceId });
+        for (const file of offer.files) {
+          relayKeys.current.set(file.transferId, await deriveRelayKey(keyPair, offer.publicKey, file.transferId));
+          updateTransfer(file.transferId, { relayKeyVerified });
+        }
+        publicKey = await exportRelayPublicKey(keyPair);
+      } catch (error) {
+        console.error('Failed to derive relay key:', error);
+      }
+    }
+
+    // Accepting by batchId accepts every file in it
+    sendMessage({
+      type: 'transfer-answer',
+      transferId: offer.batchId,
+      accepted: true,
+      publicKey,
+      signature: publicKey && await signRelayKey(offer.batchId, offer.senderId, publicKey)
+    });
+  }, [deviceId, sendMessage, updateTransfer, signRelayKey]);
 
   const rejectTransfer = useCallback((transferId: string) => {
     sendMessage({
@@ -284,192 +900,351 @@ export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebR
     });
   }, [sendMessage]);
 
+  // Offers and answers travel as separate message types
+  const sendDescription = useCallback((peer: PooledPeer, description: RTCSessionDescriptionInit) => {
+    const { transferId, connectionId } = peer;
+    if (description.type === 'offer') {
+      sendMessage({ type: 'webrtc-offer', transferId, connectionId, offer: description });
+    } else {
+      sendMessage({ type: 'webrtc-answer', transferId, connectionId, answer: description });
+    }
+  }, [sendMessage]);
+
+  // Sender side: open the transfer's channels on the pooled connection to the
+  // receiver, setting one up first when there is none
   const initiateWebRTCConnection = useCallback(async (transfer: TransferState) => {
     try {
       // 防重复连接：检查是否已存在连接，避免资源浪费
-      const existingTransfer = transfersRef.current[transfer.transferId];
-      if (existingTransfer && existingTransfer.peerConnection) {
+      if (transfersRef.current[transfer.transferId]?.connectionId) {
         console.log(`WebRTC connection already exists for ${transfer.transferId}`);
         return;
       }
-      
-      console.log(`Initiating WebRTC connection for ${transfer.transferId}`);
-      const peerConnection = createPeerConnection();
-      
-      // 连接状态监控：实时监测WebRTC连接状态，快速响应失败情况
-      peerConnection.onconnectionstatechange = () => {
-        console.log(`Connection state changed to: ${peerConnection.connectionState}`);
-        
-        // WebRTC连接成功时更新状态
-        if (peerConnection.connectionState === 'connected') {
-          updateTransfer(transfer.transferId, { status: 'connected' });
-        }
-        
-        // 连接失败立即触发服务器中继，确保传输不中断
-        if (peerConnection.connectionState === 'failed') {
-          console.log('Connection failed - falling back to server relay');
-          fallbackToServerTransfer(transfer);
-        }
-      };
-      
-      // ICE连接监控：监控ICE连接状态，处理网络环境问题
-      peerConnection.oniceconnectionstatechange = () => {
-        console.log(`ICE connection state changed to: ${peerConnection.iceConnectionState}`);
-        
-        // ICE连接成功时记录
-        if (peerConnection.iceConnectionState === 'connected' || 
-            peerConnection.iceConnectionState === 'completed') {
-          console.log('ICE connection established successfully');
-        }
-        
-        // ICE连接失败或断开时立即切换到服务器中继
-        // 这种情况通常由NAT、防火墙或网络配置问题引起
-        if (peerConnection.iceConnectionState === 'failed' || 
-            peerConnection.iceConnectionState === 'disconnected') {
-          console.log('ICE connection failed - falling back to server relay');
-          fallbackToServerTransfer(transfer);
-        }
-      };
-      
-      // 超时保护机制：3秒内未建立连接则自动切换到服务器中继
-      // 这确保即使在复杂网络环境下也能快速切换到可靠的传输方式
-      const connectionTimeout = setTimeout(() => {
-        const currentTransfer = transfersRef.current[transfer.transferId];
-        if (currentTransfer && 
-            (currentTransfer.status === 'connecting' || currentTransfer.status === 'pending')) {
-          console.log('WebRTC connection timeout (3s) - falling back to server relay for guaranteed delivery');
-          fallbackToServerTransfer(currentTransfer);
-        }
-      }, 3000); // 缩短到3秒以提高响应速度
-      
-      // 成功建立连接后清除超时定时器
-      peerConnection.addEventListener('connectionstatechange', () => {
-        if (peerConnection.connectionState === 'connected') {
-          clearTimeout(connectionTimeout);
-        }
-      });
-      
-      const dataChannel = peerConnection.createDataChannel('fileTransfer', {
-        ordered: true,
-        maxPacketLifeTime: 3000
-      });
+
+      const pooled = peerPool.current.find(transfer.receiverId);
+      const peer = pooled ?? await openPeerConnection(transfer.receiverId, transfer.transferId, false);
+      console.log(`${pooled ? 'Reusing' : 'Opening'} connection ${peer.connectionId} for ${transfer.transferId}`);
+      peerPool.current.attach(peer, transfer.transferId);
 
       updateTransfer(transfer.transferId, { 
-        peerConnection, 
-        dataChannel, 
+        peerConnection: peer.peerConnection,
+        connectionId: peer.connectionId,
         status: 'connecting' 
       });
 
+      // On a new connection creating the channels starts negotiation. Chunks
+      // may be dropped or reordered on the file channel; acknowledgements make
+      // up for that. The protocol tells the receiver which transfer they carry.
+      const { peerConnection } = peer;
+      const controlChannel = peerConnection.createDataChannel(CONTROL_CHANNEL_LABEL, { protocol: transfer.transferId });
+      const channelLimit = waitForChannelLimit(controlChannel);
+      const dataChannel = peerConnection.createDataChannel(FILE_CHANNEL_LABEL, {
+        ...FILE_CHANNEL_OPTIONS,
+        protocol: transfer.transferId
+      });
+      updateTransfer(transfer.transferId, { dataChannel, controlChannel, channelLimit });
+      setupDataChannel(controlChannel, transfer.transferId, true);
       setupDataChannel(dataChannel, transfer.transferId, true);
+    } catch (error) {
+      console.error('Failed to initiate WebRTC connection:', error);
+      updateTransfer(transfer.transferId, { status: 'failed' });
+    }
+  }, [updateTransfer]);
 
-      peerConnection.onicecandidate = (event) => {
-        if (event.candidate) {
-          console.log(`Sending ICE candidate for ${transfer.transferId}`);
-          sendMessage({
-            type: 'webrtc-ice-candidate',
-            transferId: transfer.transferId,
-            candidate: event.candidate
-          });
-        }
-      };
+  // Receiver side: keep what has arrived and ask the sender for the rest
+  const requestResume = useCallback((transferId: string) => {
+    const transfer = transfersRef.current[transferId];
 
-      const offer = await peerConnection.createOffer();
-      await peerConnection.setLocalDescription(offer);
-      console.log(`Sending WebRTC offer for ${transfer.transferId}`);
+    // A batch resumes every file that is not complete yet, including ones not started
+    if (transfer?.batchFiles) {
+      if (['interrupted', 'completed', 'failed'].includes(transfer.status)) return;
 
+      const files = transfer.batchFiles
+        .map(id => transfersRef.current[id])
+        .filter(file => file && file.status !== 'completed' && !file.receivedChunks?.complete)
+        .map(file => ({
+          transferId: file.transferId,
+          missingRanges: file.receivedChunks?.missingRanges() ??
+            [[0, getTotalChunks(file.fileSize)] as ChunkRange]
+        }));
+      if (files.length === 0) return;
+
+      console.log(`Peer connection lost for batch ${transferId}, resuming ${files.length} files`);
+      releasePeerConnection(transferId);
+      updateTransfer(transferId, { status: 'interrupted' });
       sendMessage({
-        type: 'webrtc-offer',
-        transferId: transfer.transferId,
-        offer
+        type: 'transfer-resume',
+        transferId,
+        chunkSize: CHUNK_SIZE,
+        missingRanges: [],
+        files
       });
-    } catch (error) {
-      console.error('Failed to initiate WebRTC connection:', error);
-      updateTransfer(transfer.transferId, { status: 'failed' });
+      return;
     }
-  }, [sendMessage, updateTransfer]);
 
-  const handleWebRTCOffer = useCallback(async (transfer: TransferState, offer: RTCSessionDescriptionInit) => {
-    try {
-      console.log(`Handling WebRTC offer for ${transfer.transferId}`);
-      const peerConnection = createPeerConnection();
-      
-      peerConnection.onconnectionstatechange = () => {
-        console.log(`Receiver connection state changed to: ${peerConnection.connectionState}`);
-      };
-      
-      peerConnection.oniceconnectionstatechange = () => {
-        console.log(`Receiver ICE connection state changed to: ${peerConnection.iceConnectionState}`);
-      };
-      
-      updateTransfer(transfer.transferId, { 
-        peerConnection, 
-        status: 'connecting',
-        chunks: [],
-        receivedChunks: 0
-      });
+    if (!transfer?.receivedChunks || transfer.receivedChunks.complete ||
+        ['interrupted', 'completed', 'failed'].includes(transfer.status)) {
+      return;
+    }
 
-      peerConnection.ondatachannel = (event) => {
-        console.log(`Data channel received for ${transfer.transferId}`);
-        const dataChannel = event.channel;
-        updateTransfer(transfer.transferId, { dataChannel });
-        setupDataChannel(dataChannel, transfer.transferId, false);
-      };
-
-      peerConnection.onicecandidate = (event) => {
-        if (event.candidate) {
-          console.log(`Receiver sending ICE candidate for ${transfer.transferId}`);
-          sendMessage({
-            type: 'webrtc-ice-candidate',
-            transferId: transfer.transferId,
-            candidate: event.candidate
-          });
+    const missingRanges = transfer.receivedChunks.missingRanges();
+    console.log(`Peer connection lost for ${transferId}, requesting ${countChunksInRanges(missingRanges)} missing chunks`);
+
+    releasePeerConnection(transferId);
+    updateTransfer(transferId, { status: 'interrupted' });
+    sendMessage({
+      type: 'transfer-resume',
+      transferId,
+      chunkSize: transfer.chunkSize ?? CHUNK_SIZE,
+      missingRanges
+    });
+  }, [releasePeerConnection, updateTransfer, sendMessage]);
+
+  // Sender side: the receiver lost its connection and asks for the missing chunks
+  const handleTransferResume = useCallback(async (
+    transfer: TransferState,
+    missingRanges: ChunkRange[],
+    files?: Array<{ transferId: string; missingRanges: ChunkRange[] }>
+  ) => {
+    // The relay already took over and delivers everything
+    if (fallbackTriggered.current.has(transfer.transferId)) {
+      console.log(`Ignoring resume for ${transfer.transferId}, it is going through the relay`);
+      return;
+    }
+
+    if (transfer.batchFiles && files && transfer.senderId === deviceId) {
+      // Files the receiver did not list have fully arrived
+      const missing = new Map(files.map(file => [file.transferId, file.missingRanges]));
+      for (const id of transfer.batchFiles) {
+        const resumeRanges = missing.get(id);
+        updateTransfer(id, resumeRanges ? { status: 'pending', resumeRanges } : { status: 'completed', progress: 100 });
+      }
+
+      console.log(`Resuming batch ${transfer.transferId} over a new peer connection (${files.length} files)`);
+      releasePeerConnection(transfer.transferId);
+      updateTransfer(transfer.transferId, { status: 'pending' });
+      await initiateWebRTCConnection(transfersRef.current[transfer.transferId]);
+      return;
+    }
+
+    if (!transfer.file || transfer.senderId !== deviceId) return;
+
+    console.log(`Resuming ${transfer.transferId} over a new peer connection (${countChunksInRanges(missingRanges)} chunks)`);
+    releasePeerConnection(transfer.transferId);
+    updateTransfer(transfer.transferId, { status: 'pending', resumeRanges: missingRanges });
+    await initiateWebRTCConnection(transfersRef.current[transfer.transferId]);
+  }, [deviceId, releasePeerConnection, updateTransfer, initiateWebRTCConnection]);
+
+  // A failed connection takes every transfer on it down: senders fall back to
+  // the relay, receivers ask for whatever is still missing
+  const handlePeerFailed = useCallback((peer: PooledPeer) => {
+    console.log(`Peer connection ${peer.connectionId} to ${peer.deviceId} failed`);
+    peerPool.current.remove(peer);
+
+    for (const ownerId of Array.from(peer.transfers)) {
+      const transfer = transfersRef.current[ownerId];
+      if (!transfer) continue;
+
+      if (transfer.senderId === deviceId) {
+        releasePeerConnection(ownerId);
+        // Whatever was cut off mid-file is sent again through the relay
+        for (const id of [...(transfer.batchFiles ?? []), ownerId]) {
+          if (transfersRef.current[id]?.status !== 'completed') {
+            updateTransfer(id, { status: 'interrupted' });
+          }
         }
-      };
+        fallbackToServerTransfer(transfersRef.current[ownerId]);
+      } else {
+        requestResume(ownerId);
+        releasePeerConnection(ownerId);
+      }
+    }
+    peerPool.current.close(peer);
+  }, [deviceId, updateTransfer, releasePeerConnection, fallbackToServerTransfer, requestResume]);
 
-      await peerConnection.setRemoteDescription(offer);
-      const answer = await peerConnection.createAnswer();
-      await peerConnection.setLocalDescription(answer);
-      console.log(`Sending WebRTC answer for ${transfer.transferId}`);
+  // Channels for a transfer sent to us arrive on the shared connection, named
+  // by the transfer in their protocol
+  const attachIncomingChannel = useCallback((peer: PooledPeer, channel: RTCDataChannel) => {
+    const ownerId = channel.protocol;
+    const transfer = transfersRef.current[ownerId];
+    if (!transfer || transfer.receiverId !== deviceId || (transfer.senderId && transfer.senderId !== peer.deviceId)) {
+      console.warn(`Closing data channel ${channel.label} for unknown transfer ${ownerId}`);
+      channel.close();
+      return;
+    }
 
-      sendMessage({
-        type: 'webrtc-answer',
-        transferId: transfer.transferId,
-        answer
+    console.log(`Data channel ${channel.label} received for ${ownerId}`);
+    if (transfer.connectionId !== peer.connectionId) {
+      // Channels left on an older connection are dead by now
+      if (transfer.connectionId) releasePeerConnection(ownerId);
+      peerPool.current.attach(peer, ownerId);
+      updateTransfer(ownerId, {
+        peerConnection: peer.peerConnection,
+        connectionId: peer.connectionId,
+        status: 'connecting'
       });
-    } catch (error) {
-      console.error('Failed to handle WebRTC offer:', error);
-      updateTransfer(transfer.transferId, { status: 'failed' });
     }
-  }, [sendMessage, updateTransfer]);
 
-  const handleWebRTCAnswer = useCallback(async (transfer: TransferState, answer: RTCSessionDescriptionInit) => {
-    try {
-      if (transfer.peerConnection) {
-        await transfer.peerConnection.setRemoteDescription(answer);
+    if (channel.label === CONTROL_CHANNEL_LABEL) {
+      updateTransfer(ownerId, { controlChannel: channel });
+    } else if (channel.label === FILE_CHANNEL_LABEL) {
+      updateTransfer(ownerId, { dataChannel: channel });
+    } else if (isFileChannel(channel)) {
+      const fileChannels = transfersRef.current[ownerId]?.fileChannels ?? [];
+      updateTransfer(ownerId, { fileChannels: [...fileChannels, channel] });
+    }
+    setupDataChannel(channel, ownerId, false);
+  }, [deviceId, updateTransfer, releasePeerConnection]);
+
+  // Add a connection to the pool. The side opening it is impolite, the side
+  // answering polite; either restarts ICE before giving up on it.
+  const openPeerConnection = useCallback(async (
+    remoteId: string,
+    transferId: string,
+    polite: boolean,
+    connectionId = createConnectionId()
+  ) => {
+    const peerConnection = createPeerConnection(await loadIceServers());
+    peerConnection.onconnectionstatechange = () => {
+      console.log(`Connection ${connectionId} state changed to: ${peerConnection.connectionState}`);
+    };
+
+    const negotiator = new PeerNegotiator(peerConnection, {
+      polite,
+      sendDescription: description => sendDescription(peer, description),
+      sendCandidate: candidate => sendMessage({ type: 'webrtc-ice-candidate', transferId, connectionId, candidate }),
+      onFailed: () => handlePeerFailed(peer)
+    });
+    const peer: PooledPeer = { connectionId, deviceId: remoteId, transferId, peerConnection, negotiator, transfers: new Set() };
+
+    peerConnection.ondatachannel = (event) => attachIncomingChannel(peer, event.channel);
+    peerPool.current.add(peer);
+    return peer;
+  }, [loadIceServers, sendMessage, sendDescription, handlePeerFailed, attachIncomingChannel]);
+
+  // The first offer for a connection we do not know sets up the answering
+  // side; later ones (ICE restarts) renegotiate it
+  const handleSignaling = useCallback(async (message: SignalingMessage) => {
+    let peer = peerPool.current.get(message.connectionId);
+
+    if (message.type === 'webrtc-ice-candidate') {
+      if (peer) {
+        await peer.negotiator.handleCandidate(message.candidate);
+      } else {
+        const queued = earlyCandidates.current.get(message.connectionId) ?? [];
+        earlyCandidates.current.set(message.connectionId, [...queued, message.candidate]);
       }
-    } catch (error) {
-      console.error('Failed to handle WebRTC answer:', error);
+      return;
+    }
+
+    if (message.type === 'webrtc-answer') {
+      await peer?.negotiator.handleDescription(message.answer);
+      return;
+    }
+
+    if (!peer) {
+      // Only the other party of the transfer the connection was opened for may open it
+      const transfer = transfersRef.current[message.transferId];
+      if (!transfer) {
+        console.warn(`Ignoring offer for connection ${message.connectionId} of unknown transfer ${message.transferId}`);
+        return;
+      }
+      const remoteId = transfer.senderId === deviceId ? transfer.receiverId : transfer.senderId;
+      try {
+        peer = await openPeerConnection(remoteId, message.transferId, true, message.connectionId);
+      } catch (error) {
+        console.error('Failed to handle WebRTC offer:', error);
+        return;
+      }
+    }
+
+    await peer.negotiator.handleDescription(message.offer);
+    for (const candidate of earlyCandidates.current.get(message.connectionId) ?? []) {
+      await peer.negotiator.handleCandidate(candidate);
     }
+    earlyCandidates.current.delete(message.connectionId);
+  }, [deviceId, openPeerConnection]);
+
+  // Unused connections to devices that went offline are closed right away
+  const retainPeers = useCallback((onlineDeviceIds: string[]) => {
+    peerPool.current.retain(onlineDeviceIds);
   }, []);
 
-  const handleICECandidate = useCallback(async (transfer: TransferState, candidate: RTCIceCandidateInit) => {
+  // Text snippets can travel either way over an open channel; they are handed
+  // to the text share hook like those relayed by the server. Returns false
+  // for anything that is not a text share.
+  const receiveChannelText = useCallback((channelId: string, data: string) => {
+    let message: unknown;
     try {
-      if (transfer.peerConnection && 
-          transfer.peerConnection.connectionState !== 'failed' &&
-          transfer.peerConnection.connectionState !== 'closed') {
-        await transfer.peerConnection.addIceCandidate(candidate);
+      message = JSON.parse(data);
+    } catch {
+      return false;
+    }
+    if ((message as { type?: unknown })?.type !== 'text-share') return false;
+
+    // The server vouches for senders on the WebSocket path; here the channel does
+    const channelTransfer = transfersRef.current[channelId];
+    const peerId = channelTransfer?.senderId === deviceId ? channelTransfer.receiverId : channelTransfer?.senderId;
+    const parsed = textShareSchema.safeParse(message);
+    if (parsed.success && parsed.data.senderId === peerId && parsed.data.receiverId === deviceId) {
+      window.dispatchEvent(new CustomEvent('text-message', { detail: parsed.data }));
+    } else {
+      console.warn(`Ignoring invalid text share on channel for ${channelId}`);
+    }
+    return true;
+  }, [deviceId]);
+
+  // Send over any open control channel to the device; false when there is none
+  const sendOverDataChannel = useCallback((peerId: string, message: TextShare) => {
+    const channel = Object.values(transfersRef.current).find(transfer =>
+      transfer.controlChannel?.readyState === 'open' &&
+      (transfer.senderId === peerId || transfer.receiverId === peerId)
+    )?.controlChannel;
+    if (!channel) return false;
+
+    channel.send(JSON.stringify(message));
+    return true;
+  }, []);
+
+  // Sender side: the receiver confirms stored chunks over the control channel
+  const handleChunkAck = useCallback((channelId: string, data: unknown) => {
+    if (typeof data !== 'string') return;
+
+    try {
+      const message = JSON.parse(data) as ChunkAck;
+      if (message.type !== 'chunk-ack' || !Array.isArray(message.ranges)) return;
+
+      const transfer = transfersRef.current[message.transferId];
+      if (!transfer || (message.transferId !== channelId && transfer.batchId !== channelId)) {
+        console.warn(`Ignoring chunk-ack for ${message.transferId} on channel for ${channelId}`);
+        return;
       }
+      transfer.sendWindow?.ack(message.ranges, Date.now());
     } catch (error) {
-      console.error('Failed to handle ICE candidate:', error);
-      // Don't retry on ICE candidate errors, just log and continue
+      console.error('Failed to handle chunk acknowledgement:', error);
     }
   }, []);
 
+  // Receiver side; dropped when the control channel is gone, a resume asks for those chunks again
+  const sendChunkAck = useCallback((channelId: string, transferId: string, ranges: ChunkRange[]) => {
+    const channel = transfersRef.current[channelId]?.controlChannel;
+    if (channel?.readyState !== 'open') return;
+
+    const ack: ChunkAck = { type: 'chunk-ack', transferId, ranges };
+    channel.send(JSON.stringify(ack));
+  }, []);
+
   const setupDataChannel = useCallback((dataChannel: RTCDataChannel, transferId: string, isSender: boolean) => {
     console.log(`Setting up data channel for ${transferId}, isSender: ${isSender}`);
+    dataChannel.binaryType = 'arraybuffer';
     
     dataChannel.onopen = () => {
-      console.log(`Data channel opened for ${transferId}, readyState: ${dataChannel.readyState}`);
+      console.log(`Data channel ${dataChannel.label} opened for ${transferId}`);
+      if (!isSender && dataChannel.label === CONTROL_CHANNEL_LABEL) {
+        const limit: ChannelLimit = { type: 'channel-limit', maxChannels: getChannelLimit() };
+        dataChannel.send(JSON.stringify(limit));
+      }
+      // The first file channel drives the transfer; the sender waits for the control channel itself
+      if (dataChannel.label !== FILE_CHANNEL_LABEL) return;
       updateTransfer(transferId, { status: 'connected' });
       
       if (isSender) {
@@ -479,215 +1254,526 @@ export function useWebRTC({ deviceId, sendMessage, onTransferComplete }: UseWebR
     };
 
     dataChannel.onmessage = (event) => {
-      console.log(`Data channel message received for ${transferId}, size: ${event.data.length}`);
-      if (!isSender) {
+      if (typeof event.data === 'string' && receiveChannelText(transferId, event.data)) return;
+      if (isSender) {
+        handleChunkAck(transferId, event.data);
+      } else {
         handleFileChunk(transferId, event.data);
       }
     };
 
+    // A dropped channel is not fatal: the sender's loop stops and the
+    // receiver asks for whatever is still missing
     dataChannel.onerror = (error) => {
       console.error(`Data channel error for ${transferId}:`, error);
-      updateTransfer(transferId, { status: 'failed' });
     };
 
     dataChannel.onclose = () => {
-      console.log(`Data channel closed for ${transferId}`);
+      console.log(`Data channel ${dataChannel.label} closed for ${transferId}`);
+      if (!isSender) {
+        requestResume(transferId);
+      }
     };
-  }, [updateTransfer]);
+  }, [updateTransfer, requestResume, receiveChannelText, handleChunkAck]);
+
+  // Send one file's metadata over the control channel and its chunk frames
+  // striped over the file channels until the receiver has confirmed every
+  // chunk; throws if the channels drop
+  const sendFileOverChannel = useCallback(async (transferId: string, stripes: StripedChannels, controlChannel: RTCDataChannel) => {
+    const transfer = transfersRef.current[transferId];
+    if (!transfer?.file) return;
+
+    updateTransfer(transferId, { status: 'transferring' });
+
+    const file = transfer.file;
+    const totalChunks = getTotalChunks(file.size);
+    const ranges: ChunkRange[] = transfer.resumeRanges ?? [[0, totalChunks]];
+    const sendWindow = new ChunkSendWindow(totalChunks, ranges);
+    updateTransfer(transferId, { chunkSize: CHUNK_SIZE, totalChunks, sendWindow });
+
+    const sha256 = await getFileHash(transferId, file);
+
+    // Send file metadata first; the transferId tells files of a batch apart
+    const metadata = {
+      type: 'metadata',
+      transferId,
+      fileName: transfer.fileName,
+      fileSize: transfer.fileSize,
+      fileType: transfer.fileType,
+      relativePath: transfer.relativePath,
+      chunkSize: CHUNK_SIZE,
+      totalChunks,
+      sha256,
+      resume: Boolean(transfer.resumeRanges)
+    };
+
+    controlChannel.send(JSON.stringify(metadata));
+
+    // Read and send binary chunk frames one at a time, pausing whenever the
+    // send buffers or the window of unconfirmed chunks are full
+    const ownerId = transfer.batchId ?? transferId;
+    let lastConfirmed = sendWindow.confirmed;
+    while (!sendWindow.complete) {
+      const wasPaused = Boolean(transfersRef.current[ownerId]?.paused);
+      await waitWhilePaused(ownerId);
+      if (wasPaused) stripes.restartSample(Date.now());
+      if (controlChannel.readyState !== 'open') {
+        throw new Error('Control channel closed before all chunks were confirmed');
+      }
+
+      // The receiver acknowledges the metadata once it can store chunks
+      const index = sendWindow.ready ? sendWindow.next(Date.now()) : undefined;
+      if (index === undefined) {
+        await sendWindow.waitForAck(ACK_WAIT);
+      } else {
+        const channel = await stripes.pick();
+        const chunk = await readFileChunk(file, index);
+        channel.send(encodeChunkFrame(transferId, index, chunk));
+        sendWindow.markSent(index, Date.now());
+      }
+
+      stripes.record((sendWindow.confirmed - lastConfirmed) * CHUNK_SIZE, Date.now());
+      lastConfirmed = sendWindow.confirmed;
+
+      reportProgress(transferId, Math.min(sendWindow.confirmed * CHUNK_SIZE, file.size));
+    }
+
+    const stats = completeProgress(transferId, 'p2p');
+    updateTransfer(transferId, { status: 'completed', resumeRanges: undefined, sendWindow: undefined });
+    sendMessage({
+      type: 'transfer-complete',
+      transferId,
+      ...stats
+    });
+
+    onTransferComplete(transferId);
+  }, [updateTransfer, sendMessage, onTransferComplete, getFileHash, waitWhilePaused, reportProgress, completeProgress]);
 
   const startFileTransfer = useCallback(async (transferId: string) => {
     const transfer = transfersRef.current[transferId];
-    if (!transfer?.file || !transfer.dataChannel) return;
+    if (!transfer || (!transfer.file && !transfer.batchFiles) || !transfer.peerConnection ||
+        !transfer.dataChannel || !transfer.controlChannel) return;
 
     updateTransfer(transferId, { status: 'transferring' });
 
+    const { dataChannel, controlChannel, peerConnection } = transfer;
+    // Files of a batch go one after another over the same channels
+    const fileIds = transfer.batchFiles ?? [transferId];
+    let currentId = transferId;
+
     try {
-      const chunks = await createFileChunks(transfer.file);
-      updateTransfer(transferId, { totalChunks: chunks.length });
-
-      // Send file metadata first
-      const metadata = {
-        type: 'metadata',
-        fileName: transfer.fileName,
-        fileSize: transfer.fileSize,
-        fileType: transfer.fileType,
-        totalChunks: chunks.length
-      };
-      
-      transfer.dataChannel.send(JSON.stringify(metadata));
-
-      // Send chunks with progress updates
-      for (let i = 0; i < chunks.length; i++) {
-        if (transfer.dataChannel.readyState === 'open') {
-          const chunkData = {
-            type: 'chunk',
-            index: i,
-            data: Array.from(new Uint8Array(chunks[i]))
-          };
-          
-          transfer.dataChannel.send(JSON.stringify(chunkData));
-          
-          const progress = Math.round(((i + 1) / chunks.length) * 100);
-          updateTransfer(transferId, { progress });
-          
-          sendMessage({
-            type: 'transfer-progress',
-            transferId,
-            progress
-          });
+      await waitForChannelOpen(controlChannel);
 
-          // Small delay to prevent overwhelming the channel
-          if (i % 10 === 0) {
-            await new Promise(resolve => setTimeout(resolve, 10));
-          }
-        }
+      const setting = getChannelSetting();
+      const limit = await (transfer.channelLimit ?? 1);
+      const stripes = new StripedChannels(dataChannel, index => {
+        const channel = peerConnection.createDataChannel(`${FILE_CHANNEL_LABEL}-${index}`, {
+          ...FILE_CHANNEL_OPTIONS,
+          protocol: transferId
+        });
+        const fileChannels = transfersRef.current[transferId]?.fileChannels ?? [];
+        updateTransfer(transferId, { fileChannels: [...fileChannels, channel] });
+        setupDataChannel(channel, transferId, true);
+        return channel;
+      }, limit, setting === 'auto', setting === 'auto' ? 1 : setting);
+
+      for (const fileId of fileIds) {
+        if (transfer.batchFiles && transfersRef.current[fileId]?.status === 'completed') continue;
+        currentId = fileId;
+        await sendFileOverChannel(fileId, stripes, controlChannel);
       }
 
-      updateTransfer(transferId, { status: 'completed', progress: 100 });
-      sendMessage({
-        type: 'transfer-complete',
-        transferId
-      });
-      
-      onTransferComplete(transferId);
+      if (transfer.batchFiles) {
+        updateTransfer(transferId, { status: 'completed', progress: 100 });
+      }
+      // The connection stays pooled for the next transfer
+      releasePeerConnection(transferId);
     } catch (error) {
+      // A newer connection has taken over after a resume
+      if (transfersRef.current[transferId]?.dataChannel !== dataChannel) return;
+
+      if (dataChannel.readyState !== 'open' || controlChannel.readyState !== 'open') {
+        // The peer dropped mid-transfer; wait for the receiver to ask for the missing chunks
+        console.log(`Data channel lost for ${transferId}, waiting for the receiver to resume`);
+        releasePeerConnection(transferId);
+        updateTransfer(transferId, { status: 'interrupted' });
+        updateTransfer(currentId, { status: 'interrupted' });
+        return;
+      }
+
       console.error('File transfer failed:', error);
       updateTransfer(transferId, { status: 'failed' });
+      updateTransfer(currentId, { status: 'failed' });
       sendMessage({
         type: 'transfer-error',
-        transferId,
+        transferId: currentId,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
     }
-  }, [updateTransfer, sendMessage, onTransferComplete]);
+  }, [updateTransfer, sendMessage, releasePeerConnection, sendFileOverChannel, setupDataChannel]);
 
-  const handleFileChunk = useCallback(async (transferId: string, data: any) => {
+  const finishReceive = useCallback(async (transferId: string) => {
     const transfer = transfersRef.current[transferId];
-    if (!transfer) return;
+    if (!transfer?.sink) return;
 
     try {
-      const message = JSON.parse(data);
+      console.log(`File transfer complete: ${transfer.fileName}`);
+      if (!await deliverReceivedFile(transferId, transfer.sink, transfer.expectedSha256)) return;
+
+      const stats = completeProgress(transferId, 'p2p');
+      updateTransfer(transferId, { status: 'completed', sink: undefined });
+      sendMessage({
+        type: 'transfer-complete',
+        transferId,
+        ...stats
+      });
+
+      // Once the batch is done a closing channel no longer resumes it, and
+      // the batch lets go of its channels; a single file does so right away
+      await completeBatchFile(transfer);
+      if (!transfer.batchId) {
+        releasePeerConnection(transferId);
+      }
       
-      if (message.type === 'metadata') {
-        updateTransfer(transferId, {
-          fileName: message.fileName,
-          fileSize: message.fileSize,
-          fileType: message.fileType,
-          totalChunks: message.totalChunks,
-          chunks: new Array(message.totalChunks),
-          receivedChunks: 0
-        });
-      } else if (message.type === 'chunk') {
-        const chunks = transfer.chunks || [];
-        chunks[message.index] = new Uint8Array(message.data).buffer;
-        
-        const receivedChunks = (transfer.receivedChunks || 0) + 1;
-        const progress = Math.round((receivedChunks / (transfer.totalChunks || 1)) * 100);
-        
-        updateTransfer(transferId, {
-          chunks,
-          receivedChunks,
-          progress
-        });
+      onTransferComplete(transferId);
+    } catch (error) {
+      console.error('Failed to save file:', error);
+      updateTransfer(transferId, { status: 'failed' });
+    }
+  }, [updateTransfer, sendMessage, onTransferComplete, deliverReceivedFile, completeBatchFile, releasePeerConnection, completeProgress]);
 
-        sendMessage({
-          type: 'transfer-progress',
-          transferId,
-          progress
-        });
+  const handleFileChunk = useCallback(async (channelId: string, data: any) => {
+    const channelTransfer = transfersRef.current[channelId];
+    if (!channelTransfer) return;
+
+    // A batch channel carries the files of that batch and nothing else
+    const belongsToChannel = (id: string) => id === channelId || Boolean(channelTransfer.batchFiles?.includes(id));
 
-        // Check if all chunks received
-        if (receivedChunks === transfer.totalChunks) {
-          try {
-            console.log(`File transfer complete: ${transfer.fileName}`);
-            const file = await reassembleFile(chunks, transfer.fileName, transfer.fileType);
-            
-            // Force download to user's computer
-            const url = URL.createObjectURL(file);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = transfer.fileName;
-            a.style.display = 'none';
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            
-            // Clean up object URL after a short delay to ensure download starts
-            setTimeout(() => {
-              URL.revokeObjectURL(url);
-            }, 1000);
-
-            updateTransfer(transferId, { status: 'completed', progress: 100 });
-            sendMessage({
-              type: 'transfer-complete',
-              transferId
-            });
-            
-            console.log(`Download triggered for: ${transfer.fileName}`);
-            onTransferComplete(transferId);
-          } catch (error) {
-            console.error('Failed to download file:', error);
-            updateTransfer(transferId, { status: 'failed' });
+    try {
+      // Control messages are JSON text, file data arrives as binary chunk frames
+      if (typeof data === 'string') {
+        const message = JSON.parse(data);
+        const transferId: string = message.transferId ?? channelId;
+        const transfer = transfersRef.current[transferId];
+        if (!transfer || !belongsToChannel(transferId)) {
+          console.warn(`Ignoring ${message.type} for ${transferId} on channel for ${channelId}`);
+          return;
+        }
+
+        if (message.type === 'metadata') {
+          // A resumed transfer keeps writing into the existing sink
+          const existing = transfer.receivedChunks;
+          if (message.resume && transfer.sink && existing && existing.size === message.totalChunks) {
+            console.log(`Resuming ${transferId} with ${existing.count}/${existing.size} chunks already received`);
+            updateTransfer(transferId, { status: 'transferring' });
+            sendChunkAck(channelId, transferId, []);
+            return;
           }
+
+          const sink = await openReceiveSink(transferId, message.fileSize, message.fileType);
+          const ackBatcher = new ChunkAckBatcher(ranges => sendChunkAck(channelId, transferId, ranges));
+
+          updateTransfer(transferId, {
+            fileName: message.fileName,
+            fileSize: message.fileSize,
+            fileType: message.fileType,
+            chunkSize: message.chunkSize,
+            totalChunks: message.totalChunks,
+            receivedChunks: new ChunkBitmap(message.totalChunks),
+            expectedSha256: message.sha256,
+            sink,
+            ackBatcher
+          });
+          // Tells the sender it can start on the chunks
+          sendChunkAck(channelId, transferId, []);
+
+          // Empty files have no chunks to wait for
+          if (message.totalChunks === 0) {
+            await finishReceive(transferId);
+          }
+        }
+      } else {
+        const frame = decodeChunkFrame(data as ArrayBuffer);
+        const transferId = frame.transferId;
+        const transfer = transfersRef.current[transferId];
+        if (!transfer || !belongsToChannel(transferId)) {
+          console.warn(`Ignoring chunk for ${transferId} on channel for ${channelId}`);
+          return;
+        }
+
+        const { receivedChunks, sink, ackBatcher, chunkSize = CHUNK_SIZE } = transfer;
+        if (!receivedChunks || !sink || frame.index < 0 || frame.index >= receivedChunks.size) return;
+
+        // A chunk sent again because its ack got lost is confirmed again
+        if (receivedChunks.has(frame.index)) {
+          ackBatcher?.add(frame.index);
+          return;
+        }
+
+        // Only a stored chunk counts as received; if the write fails, the
+        // sender gets no ack and sends it again. Completion is checked right
+        // after add() so exactly one handler finishes the file.
+        await sink.write(frame.index * chunkSize, frame.data);
+        const isLastChunk = receivedChunks.add(frame.index) && receivedChunks.complete;
+        const received = Math.min(receivedChunks.count * chunkSize, transfer.fileSize);
+        ackBatcher?.add(frame.index);
+        reportProgress(transferId, received);
+
+        if (isLastChunk) {
+          ackBatcher?.flush();
+          await finishReceive(transferId);
         }
       }
     } catch (error) {
       console.error('Failed to handle file chunk:', error);
     }
-  }, [updateTransfer, sendMessage, onTransferComplete]);
+  }, [updateTransfer, finishReceive, openReceiveSink, sendChunkAck, reportProgress]);
 
   const handleServerTransferComplete = useCallback(async (transferId: string) => {
     console.log(`Downloading file via server for ${transferId}`);
+    const controller = new AbortController();
+    relayAborts.current.set(transferId, controller);
     
     try {
-      const response = await fetch(`/api/transfer/${transferId}/download`);
-      if (!response.ok) {
-        throw new Error('Download failed');
-      }
-      
-      const blob = await response.blob();
       const transfer = transfersRef.current[transferId];
-      const fileName = transfer?.fileName || 'download';
-      
-      // Trigger download
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = fileName;
-      a.style.display = 'none';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+
+      // Stream the body into a sink instead of buffering the whole response;
+      // the sink is reset first, dropping whatever a dropped peer connection
+      // had already delivered. The file is decrypted on the way in; one the
+      // sender left unencrypted is refused, as the relay must not see plaintext.
+      const { sink } = await downloadFromRelay(transferId, {
+        getToken: () => getRelayToken(transferId, 'download'),
+        signal: controller.signal,
+        openSink: async ({ size, type, encryption }) => {
+          const relayKey = relayKeys.current.get(transferId);
+          if (encryption !== RELAY_ENCRYPTION || !relayKey) {
+            throw new Error(`Cannot decrypt relayed file (${encryption ?? 'not encrypted'})`);
+          }
+          const fileSize = decryptedSize(size);
+
+          let inner = transfer?.sink;
+          if (inner) {
+            await inner.reset();
+          } else {
+            inner = await openReceiveSink(transferId, fileSize || transfer?.fileSize || 0, type);
+          }
+          return new DecryptingSink(inner, relayKey, size);
+        },
+        // The upload is over and the server already counts the file as
+        // delivered, so only this side hears about the download
+        onProgress: (received, total) => {
+          if (transfersRef.current[transferId]?.status !== 'transferring') {
+            updateTransfer(transferId, { status: 'transferring', viaRelay: true });
+          }
+          const fileSize = transfersRef.current[transferId]?.fileSize ?? 0;
+          reportProgress(transferId, total > 0 ? Math.floor((received / total) * fileSize) : 0, false);
+        }
+      });
+
+      // The relay's hash covers the ciphertext, which GCM already authenticated;
+      // only a hash the sender gave us directly is checked
+      if (!await deliverReceivedFile(transferId, sink, transfer?.expectedSha256 || null)) return;
       
-      updateTransfer(transferId, { status: 'completed', progress: 100 });
+      const stats = completeProgress(transferId, 'relay');
+      updateTransfer(transferId, { status: 'completed', sink: undefined });
+      sendMessage({
+        type: 'transfer-complete',
+        transferId,
+        ...stats
+      });
+      relayTokens.current.forget(transferId);
+      await completeBatchFile(transfersRef.current[transferId]);
       onTransferComplete(transferId);
     } catch (error) {
+      // Paused: the sink went with the aborted download, so start over once the pause ends
+      if (controller.signal.aborted) {
+        updateTransfer(transferId, { sink: undefined, receivedChunks: undefined });
+        await waitWhilePaused(transfersRef.current[transferId]?.batchId ?? transferId);
+        if (!isStopped(transferId)) {
+          await handleServerTransferComplete(transferId);
+        }
+        return;
+      }
       console.error('Server download failed:', error);
       updateTransfer(transferId, { status: 'failed' });
+    } finally {
+      if (relayAborts.current.get(transferId) === controller) {
+        relayAborts.current.delete(transferId);
+      }
     }
-  }, [updateTransfer, onTransferComplete]);
+  }, [updateTransfer, sendMessage, onTransferComplete, deliverReceivedFile, getRelayToken, openReceiveSink, completeBatchFile, isStopped, waitWhilePaused, reportProgress, completeProgress]);
 
   // Listen for server transfer complete messages
   useEffect(() => {
-    const handleServerComplete = (event: Event) => {
+    const handleServerComplete = async (event: Event) => {
       const customEvent = event as CustomEvent;
-      if (customEvent.detail.type === 'transfer-complete') {
+      // Only the relay's notice that the upload is done means there is
+      // something to fetch; the sender's own completion arrives while we may
+      // still be storing the last chunks it sent over the data channel
+      if (customEvent.detail.type === 'transfer-complete' && customEvent.detail.transport === 'relay') {
         const transfer = transfersRef.current[customEvent.detail.transferId];
-        if (transfer && transfer.receiverId === deviceId) {
-          handleServerTransferComplete(customEvent.detail.transferId);
+        if (!transfer || transfer.receiverId !== deviceId || transfer.status === 'completed') return;
+
+        // Still arriving, or already all here, over the data channel. A
+        // partial file from a dropped connection is replaced by the download.
+        const owner = transfersRef.current[transfer.batchId ?? transfer.transferId];
+        if (owner?.dataChannel?.readyState === 'open' || transfer.receivedChunks?.complete) return;
+
+        // Fetched once a pause ends; a cancelled file is gone from the relay
+        await waitWhilePaused(transfer.batchId ?? transfer.transferId);
+        if (!isStopped(transfer.transferId)) {
+          handleServerTransferComplete(transfer.transferId);
         }
       }
     };
     
     window.addEventListener('webrtc-message', handleServerComplete);
     return () => window.removeEventListener('webrtc-message', handleServerComplete);
-  }, [deviceId, handleServerTransferComplete]);
+  }, [deviceId, handleServerTransferComplete, isStopped, waitWhilePaused]);
+
+  // Stop sending or receiving without giving up: loops park until the pause
+  // ends and relay requests are aborted, keeping what has arrived
+  const pauseLocally = useCallback((transferId: string) => {
+    const transfer = transfersRef.current[transferId];
+    if (!transfer || ['completed', 'failed', 'cancelled'].includes(transfer.status)) return;
+
+    updateTransfer(transferId, { paused: true });
+    const now = Date.now();
+    for (const id of [...(transfer.batchFiles ?? []), transferId]) {
+      transfersRef.current[id]?.meter?.pause(now);
+      relayAborts.current.get(id)?.abort();
+    }
+  }, [updateTransfer]);
+
+  const resumeLocally = useCallback((transferId: string) => {
+    const transfer = transfersRef.current[transferId];
+    if (!transfer?.paused) return;
+
+    updateTransfer(transferId, { paused: false });
+    // The time spent paused says nothing about the speed or the duration
+    const now = Date.now();
+    for (const id of [...(transfer.batchFiles ?? []), transferId]) {
+      transfersRef.current[id]?.meter?.resume(now);
+    }
+    releasePaused(transferId);
+
+    // Parked loops carry on by themselves; a sender whose connection went away meanwhile uses the relay
+    const connecting = transfer.peerConnection &&
+      ['new', 'connecting'].includes(transfer.peerConnection.connectionState);
+    if (transfer.senderId === deviceId && !transfer.viaRelay &&
+        transfer.dataChannel?.readyState !== 'open' && !connecting) {
+      fallbackToServerTransfer(transfersRef.current[transferId]);
+    }
+  }, [deviceId, updateTransfer, releasePaused, fallbackToServerTransfer]);
+
+  // Give up on a transfer: close the connection, abort relay requests and
+  // drop whatever was received
+  const cancelLocally = useCallback(async (transferId: string) => {
+    const transfer = transfersRef.current[transferId];
+    if (!transfer) return;
+
+    releasePeerConnection(transferId);
+    relayKeyPairs.current.delete(transferId);
+    for (const id of [...(transfer.batchFiles ?? []), transferId]) {
+      const current = transfersRef.current[id];
+      if (!current || current.status === 'completed') continue;
+
+      updateTransfer(id, { status: 'cancelled', paused: false, file: undefined, resumeRanges: undefined });
+      relayAborts.current.get(id)?.abort();
+      relayTokens.current.forget(id);
+      relayKeys.current.delete(id);
+      await pendingSinks.current.get(id)?.abort().catch(() => undefined);
+      pendingSinks.current.delete(id);
+      await current.sink?.abort().catch(() => undefined);
+      updateTransfer(id, { sink: undefined, receivedChunks: undefined });
+    }
+
+    for (const entry of folderEntries.current.get(transferId) ?? []) {
+      await entry.sink.dispose().catch(() => undefined);
+    }
+    folderEntries.current.delete(transferId);
+
+    // Parked loops wake up, see the cancel and stop
+    releasePaused(transferId);
+  }, [releasePeerConnection, updateTransfer, releasePaused]);
+
+  // Either side can pause, resume or cancel; the server passes it on to the other side
+  const pauseTransfer = useCallback((transferId: string) => {
+    sendMessage({ type: 'transfer-pause', transferId });
+    pauseLocally(transferId);
+  }, [sendMessage, pauseLocally]);
+
+  const resumeTransfer = useCallback((transferId: string) => {
+    sendMessage({ type: 'transfer-resume', transferId });
+    resumeLocally(transferId);
+  }, [sendMessage, resumeLocally]);
+
+  const cancelTransfer = useCallback(async (transferId: string) => {
+    sendMessage({ type: 'transfer-cancel', transferId });
+    await cancelLocally(transferId);
+  }, [sendMessage, cancelLocally]);
+
+  // Relayed files of a batch this session still holds the keys for. The relay
+  // only has their ciphertext, so zipping happens here and only as long as
+  // the page that received them stays open.
+  const zippableFiles = useCallback((files: Transfer[]) => {
+    return files.filter(file =>
+      file.status === 'completed' && file.transport === 'relay' && relayKeys.current.has(file.transferId)
+    );
+  }, []);
+
+  const canDownloadBatchZip = useCallback((files: Transfer[]) => {
+    return zippableFiles(files).length > 0;
+  }, [zippableFiles]);
+
+  // Download the relayed files of a batch again, decrypt them here and hand
+  // them over as one zip
+  const downloadBatchZip = useCallback(async (files: Transfer[]) => {
+    const relayed = zippableFiles(files);
+    if (relayed.length === 0) {
+      throw new Error('None of these files can be downloaded from the relay again');
+    }
+
+    const entries: Array<ZipEntry & { sink: FileSink }> = [];
+    const disposeAll = () => entries.forEach(entry => entry.sink.dispose());
+    try {
+      for (const file of relayed) {
+        const relayKey = relayKeys.current.get(file.transferId)!;
+        const { sink } = await downloadFromRelay(file.transferId, {
+          getToken: () => getRelayToken(file.transferId, 'download'),
+          openSink: async ({ size, type, encryption }) => {
+            if (encryption !== RELAY_ENCRYPTION) {
+              throw new Error(`Cannot decrypt relayed file (${encryption ?? 'not encrypted'})`);
+            }
+            const inner = await createFileSink(`${file.transferId}-zip`, decryptedSize(size), type);
+            return new DecryptingSink(inner, relayKey, size);
+          }
+        });
+        entries.push({ path: file.relativePath || file.fileName, blob: await sink.close(), sink });
+      }
+
+      const zipName = `${batchFolderName(relayed) ?? 'files'}.zip`;
+      triggerDownload(await createZip(entries), zipName, disposeAll);
+      console.log(`Download triggered for: ${zipName}`);
+    } catch (error) {
+      disposeAll();
+      throw error;
+    }
+  }, [zippableFiles, getRelayToken]);
 
   return {
     transfers,
     sendFile,
+    sendBatch,
     acceptTransfer,
-    rejectTransfer
+    acceptBatch,
+    rejectTransfer,
+    pauseTransfer,
+    resumeTransfer,
+    cancelTransfer,
+    canDownloadBatchZip,
+    downloadBatchZip,
+    sendOverDataChannel,
+    retainPeers
   };
 }
@@ -11,13 +11,24 @@ interface UseWebSocketProps {
   onTransferOffer: (offer: any) => void;
   onConnectionStatusChange: (status: 'connecting' | 'connected' | 'disconnected') => void;
   onTransferUpdate: (transfer: any) => void;
+  onTransferExpired: (transferId: string) => void;
+  // The peer paused, resumed or cancelled a transfer (or a batch, by batchId)
+  onTransferStatus: (transferId: string, status: 'paused' | 'transferring' | 'cancelled') => void;
+  // The server handed out the secret proving this device owns its id
+  onDeviceSecret: (deviceId: string, secret: string) => void;
+  // Our device id belongs to another device (or can't be proven), so a new one is needed
+  onDeviceClaimed: () => void;
 }
 
 export function useWebSocket({
   onDeviceList,
   onTransferOffer,
   onConnectionStatusChange,
-  onTransferUpdate
+  onTransferUpdate,
+  onTransferExpired,
+  onTransferStatus,
+  onDeviceSecret,
+  onDeviceClaimed
 }: UseWebSocketProps) {
   const [wsClient, setWsClient] = useState<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
@@ -136,8 +147,13 @@ export function useWebSocket({
       case 'device-list':
         onDeviceList(message.devices);
         break;
+
+      case 'device-secret':
+        onDeviceSecret(message.deviceId, message.secret);
+        break;
       
       case 'transfer-offer':
+      case 'batch-offer':
         onTransferOffer(message);
         break;
       
@@ -147,16 +163,62 @@ export function useWebSocket({
       case 'webrtc-ice-candidate':
       case 'transfer-progress':
       case 'transfer-error':
+      case 'relay-token':
         // These are handled by the WebRTC hook
         window.dispatchEvent(new CustomEvent('webrtc-message', { detail: message }));
         break;
         
+      case 'pair-request':
+      case 'pair-accept':
+      case 'pair-reveal':
+      case 'pair-cancel':
+        // Handled by the pairing hook
+        window.dispatchEvent(new CustomEvent('pairing-message', { detail: message }));
+        break;
+
+      case 'transfer-resume':
+        // Without ranges it ends a pause; with them it is the receiver asking for missing chunks
+        if (!message.missingRanges) {
+          onTransferStatus(message.transferId, 'transferring');
+        }
+        window.dispatchEvent(new CustomEvent('webrtc-message', { detail: message }));
+        break;
+
+      case 'transfer-expired':
+        // The offer went unanswered: drop it from the queue and stop the sender
+        onTransferExpired(message.transferId);
+        window.dispatchEvent(new CustomEvent('webrtc-message', { detail: message }));
+        break;
+
+      case 'transfer-pause':
+      case 'transfer-cancel':
+        onTransferStatus(message.transferId, message.type === 'transfer-pause' ? 'paused' : 'cancelled');
+        window.dispatchEvent(new CustomEvent('webrtc-message', { detail: message }));
+        break;
+
+      case 'text-share':
+        // Handled by the text share hook, which also gets those sent over data channels
+        window.dispatchEvent(new CustomEvent('text-message', { detail: message }));
+        break;
+
       case 'transfer-complete':
         // Handle transfer completion - only dispatch to WebRTC handler, don't auto-download here
         // The download will be handled by the WebRTC hook to prevent duplicates
         window.dispatchEvent(new CustomEvent('webrtc-message', { detail: message }));
         break;
       
+      case 'error':
+        // The server refused one of our messages (see wsErrorSchema)
+        console.warn(`Server refused ${message.requestType ?? 'message'} (${message.code}): ${message.message}`);
+        if (message.requestType === 'device-register' && message.code === 'device-claimed') {
+          onDeviceClaimed();
+        } else if (message.requestType === 'text-share') {
+          window.dispatchEvent(new CustomEvent('text-message', { detail: message }));
+        } else if (message.requestType?.startsWith('pair-')) {
+          window.dispatchEvent(new CustomEvent('pairing-message', { detail: message }));
+        }
+        break;
+
       case 'pong':
         // 心跳响应：确认连接活跃，记录延迟信息
         const latency = Date.now() - (message.originalTimestamp || 0);
@@ -0,0 +1,192 @@
+// Reliable delivery on top of the unordered, partially reliable file channel.
+// The receiver acknowledges the chunk indices it has stored, in batches over
+// the reliable control channel. The sender keeps a bounded window of
+// unconfirmed chunks and sends again whatever was skipped over by a later
+// acknowledgement or not confirmed in time. A file only counts as sent once
+// every chunk has been confirmed.
+
+import { ChunkBitmap, type ChunkRange } from "@/lib/webrtc-utils";
+
+// At most this many unconfirmed chunks (16 MB at the default chunk size)
+export const SEND_WINDOW_CHUNKS = 1024;
+// Longer than the channel's maxPacketLifeTime plus an acknowledgement delay:
+// by then a chunk has either arrived or been dropped for good
+export const RETRANSMIT_TIMEOUT = 5000;
+// Unordered delivery can overtake a chunk briefly, so a gap has to be this
+// old before it is treated as lost
+export const REORDER_GRACE = 250;
+// A sender with nothing to send looks for timed out chunks this often
+export const ACK_WAIT = 250;
+
+// The receiver acknowledges after this many chunks or this long, whichever comes first
+export const ACK_BATCH_CHUNKS = 64;
+export const ACK_DELAY = 100;
+
+export interface ChunkAck {
+  type: 'chunk-ack';
+  transferId: string;
+  ranges: ChunkRange[];
+}
+
+// Collapse chunk indices into sorted half-open ranges
+export function rangesFromIndices(indices: number[]): ChunkRange[] {
+  const sorted = [...indices].sort((a, b) => a - b);
+  const ranges: ChunkRange[] = [];
+  for (const index of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && index <= last[1]) {
+      last[1] = Math.max(last[1], index + 1);
+    } else {
+      ranges.push([index, index + 1]);
+    }
+  }
+  return ranges;
+}
+
+interface SentChunk {
+  // Send order; a confirmed chunk tells us everything sent before it has had its chance
+  seq: number;
+  sentAt: number;
+}
+
+export class ChunkSendWindow {
+  private confirmedChunks: ChunkBitmap;
+  // Unconfirmed chunks in the order they were last sent
+  private inFlight = new Map<number, SentChunk>();
+  private retransmits: number[] = [];
+  private pending: ChunkRange[];
+  private seq = 0;
+  private waiter?: () => void;
+  // Set by the first acknowledgement, which the receiver sends once it is ready for chunks
+  ready = false;
+
+  // Only chunks in ranges are sent; the rest count as confirmed already
+  constructor(totalChunks: number, ranges: ChunkRange[]) {
+    this.confirmedChunks = new ChunkBitmap(totalChunks);
+    this.pending = ranges.map(([start, end]): ChunkRange => [start, end]);
+
+    let next = 0;
+    for (const [start, end] of [...ranges, [totalChunks, totalChunks] as ChunkRange]) {
+      for (let i = next; i < start; i++) this.confirmedChunks.add(i);
+      next = Math.max(next, end);
+    }
+  }
+
+  get complete(): boolean {
+    return this.confirmedChunks.complete;
+  }
+
+  get confirmed(): number {
+    return this.confirmedChunks.count;
+  }
+
+  // The next chunk to send, or undefined while the window is full or
+  // everything sent is still waiting for confirmation
+  next(now: number): number | undefined {
+    this.expire(now);
+
+    while (this.retransmits.length > 0) {
+      const index = this.retransmits.shift()!;
+      if (!this.confirmedChunks.has(index) && !this.inFlight.has(index)) return index;
+    }
+
+    if (this.inFlight.size >= SEND_WINDOW_CHUNKS) return undefined;
+
+    while (this.pending.length > 0) {
+      const range = this.pending[0];
+      if (range[0] >= range[1]) {
+        this.pending.shift();
+        continue;
+      }
+      const index = range[0]++;
+      if (!this.confirmedChunks.has(index)) return index;
+    }
+    return undefined;
+  }
+
+  markSent(index: number, now: number) {
+    this.inFlight.delete(index);
+    this.inFlight.set(index, { seq: this.seq++, sentAt: now });
+  }
+
+  ack(ranges: ChunkRange[], now: number) {
+    this.ready = true;
+
+    let newestSeq = -1;
+    for (const [start, end] of ranges) {
+      if (!Number.isInteger(start) || !Number.isInteger(end)) continue;
+      for (let i = Math.max(0, start); i < Math.min(end, this.confirmedChunks.size); i++) {
+        const sent = this.inFlight.get(i);
+        if (sent) {
+          newestSeq = Math.max(newestSeq, sent.seq);
+          this.inFlight.delete(i);
+        }
+        this.confirmedChunks.add(i);
+      }
+    }
+
+    // Whatever was sent before a confirmed chunk and is still unconfirmed was most likely dropped
+    for (const [index, sent] of Array.from(this.inFlight)) {
+      if (sent.seq >= newestSeq) break;
+      if (now - sent.sentAt > REORDER_GRACE) this.resend(index);
+    }
+
+    this.wake();
+  }
+
+  // Resolves on the next acknowledgement or after timeout ms, whichever comes first
+  waitForAck(timeout: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.wake(), timeout);
+      this.waiter = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  private wake() {
+    const waiter = this.waiter;
+    this.waiter = undefined;
+    waiter?.();
+  }
+
+  private expire(now: number) {
+    for (const [index, sent] of Array.from(this.inFlight)) {
+      if (now - sent.sentAt <= RETRANSMIT_TIMEOUT) break;
+      this.resend(index);
+    }
+  }
+
+  private resend(index: number) {
+    this.inFlight.delete(index);
+    this.retransmits.push(index);
+  }
+}
+
+// Receiver side: gathers stored chunk indices into acknowledgements
+export class ChunkAckBatcher {
+  private indices: number[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(private send: (ranges: ChunkRange[]) => void) {}
+
+  add(index: number) {
+    this.indices.push(index);
+    if (this.indices.length >= ACK_BATCH_CHUNKS) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), ACK_DELAY);
+    }
+  }
+
+  flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.indices.length === 0) return;
+
+    const ranges = rangesFromIndices(this.indices);
+    this.indices = [];
+    this.send(ranges);
+  }
+}
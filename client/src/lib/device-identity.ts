@@ -0,0 +1,185 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, hexToBytes, randomBytes, utf8ToBytes } from "@noble/hashes/utils";
+import type { BatchFile } from "@shared/schema";
+
+// Long-lived identity of this browser: an ECDSA P-256 key pair whose private
+// half is non-extractable and kept in IndexedDB. Paired devices remember each
+// other's public key, and transfer offers and answers are signed with it, so
+// trust cannot be claimed just by reusing someone's device id. Both signatures
+// cover the relay encryption key the message carries, which is how paired
+// devices know the server did not swap it.
+
+const IDENTITY_DB_NAME = 'pixeldrop-identity';
+const IDENTITY_STORE = 'keys';
+const IDENTITY_KEY = 'device';
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+
+export interface DeviceIdentity {
+  keyPair: CryptoKeyPair;
+  // Hex raw public key, as exchanged during pairing
+  publicKey: string;
+}
+
+// Fields of a transfer offer covered by its signature
+export interface SignedFileOfferFields {
+  transferId: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  senderId: string;
+  receiverId: string;
+  publicKey?: string;
+}
+
+// A batch offer is signed over its whole manifest
+export interface SignedBatchOfferFields {
+  batchId: string;
+  senderId: string;
+  receiverId: string;
+  files: BatchFile[];
+  publicKey?: string;
+}
+
+export type SignedOfferFields = SignedFileOfferFields | SignedBatchOfferFields;
+
+// Fields of a transfer answer covered by its signature: the receiver's relay
+// key, bound to the transfer (or batch) it accepts
+export interface SignedAnswerFields {
+  transferId: string;
+  senderId: string;
+  receiverId: string;
+  publicKey: string;
+}
+
+// WebCrypto needs a secure context (HTTPS or localhost)
+export function supportsDeviceIdentity(): boolean {
+  return typeof crypto !== 'undefined' && crypto.subtle !== undefined && typeof indexedDB !== 'undefined';
+}
+
+function openIdentityDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(IDENTITY_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(IDENTITY_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function loadOrCreateIdentity(): Promise<DeviceIdentity> {
+  const db = await openIdentityDb();
+  let keyPair = await runRequest<CryptoKeyPair | undefined>(
+    db.transaction(IDENTITY_STORE, 'readonly').objectStore(IDENTITY_STORE).get(IDENTITY_KEY)
+  );
+
+  if (!keyPair) {
+    keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+    await runRequest(db.transaction(IDENTITY_STORE, 'readwrite').objectStore(IDENTITY_STORE).put(keyPair, IDENTITY_KEY));
+  }
+  db.close();
+
+  const publicKey = bytesToHex(new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)));
+  return { keyPair, publicKey };
+}
+
+let identity: Promise<DeviceIdentity> | null = null;
+
+export function getDeviceIdentity(): Promise<DeviceIdentity> {
+  if (!identity) {
+    identity = loadOrCreateIdentity();
+    identity.catch(() => { identity = null; });
+  }
+  return identity;
+}
+
+function offerPayload(offer: SignedOfferFields) {
+  if ('batchId' in offer) {
+    return utf8ToBytes(JSON.stringify([
+      'batch',
+      offer.batchId,
+      offer.senderId,
+      offer.receiverId,
+      offer.files.map(file => [file.transferId, file.fileName, file.fileSize, file.fileType, file.relativePath ?? null]),
+      offer.publicKey ?? null
+    ]));
+  }
+
+  return utf8ToBytes(JSON.stringify([
+    offer.transferId,
+    offer.fileName,
+    offer.fileSize,
+    offer.fileType,
+    offer.senderId,
+    offer.receiverId,
+    offer.publicKey ?? null
+  ]));
+}
+
+function answerPayload(answer: SignedAnswerFields) {
+  return utf8ToBytes(JSON.stringify(['answer', answer.transferId, answer.senderId, answer.receiverId, answer.publicKey]));
+}
+
+async function sign(payload: Uint8Array): Promise<string> {
+  const { keyPair } = await getDeviceIdentity();
+  const signature = await crypto.subtle.sign(SIGNING_ALGORITHM, keyPair.privateKey, payload);
+  return bytesToHex(new Uint8Array(signature));
+}
+
+async function verify(payload: Uint8Array, signature: string, publicKey: string): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey(
+      'raw', hexToBytes(publicKey), { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']
+    );
+    return await crypto.subtle.verify(SIGNING_ALGORITHM, key, hexToBytes(signature), payload);
+  } catch {
+    return false;
+  }
+}
+
+export function signOffer(offer: SignedOfferFields): Promise<string> {
+  return sign(offerPayload(offer));
+}
+
+export function verifyOffer(offer: SignedOfferFields, signature: string, publicKey: string): Promise<boolean> {
+  return verify(offerPayload(offer), signature, publicKey);
+}
+
+export function signAnswer(answer: SignedAnswerFields): Promise<string> {
+  return sign(answerPayload(answer));
+}
+
+export function verifyAnswer(answer: SignedAnswerFields, signature: string, publicKey: string): Promise<boolean> {
+  return verify(answerPayload(answer), signature, publicKey);
+}
+
+export function createPairingNonce(): string {
+  return bytesToHex(randomBytes(16));
+}
+
+// Binds the initiator to its key before it sees the responder's, so a
+// man in the middle cannot search for keys that produce a matching code
+export function pairingCommitment(publicKey: string, nonce: string): string {
+  return bytesToHex(sha256(utf8ToBytes(`${publicKey}:${nonce}`)));
+}
+
+// Six-digit short authentication string both users compare, e.g. "042 917"
+export function computeSas(
+  initiator: { publicKey: string; nonce: string },
+  responder: { publicKey: string; nonce: string }
+): string {
+  const digest = sha256(utf8ToBytes(
+    [initiator.publicKey, responder.publicKey, initiator.nonce, responder.nonce].join(':')
+  ));
+  const value = new DataView(digest.buffer, digest.byteOffset).getUint32(0) % 1000000;
+  const code = value.toString().padStart(6, '0');
+  return `${code.slice(0, 3)} ${code.slice(3)}`;
+}
@@ -0,0 +1,29 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+
+// Files are hashed in slices so memory stays flat however large they are.
+// WebCrypto can only digest a whole buffer at once, hence the JS hasher.
+const HASH_SLICE_SIZE = 4 * 1024 * 1024;
+
+// Anything that hands out byte ranges: a File or Blob, or a derived view of one
+export interface ByteSource {
+  readonly size: number;
+  slice(start: number, end: number): Blob | Promise<Blob>;
+}
+
+export type RunningHash = ReturnType<typeof sha256.create>;
+
+// Feed bytes [start, end) of a source into a running hash
+export async function updateHash(hash: RunningHash, source: ByteSource, start: number, end: number): Promise<void> {
+  for (let offset = start; offset < end; offset += HASH_SLICE_SIZE) {
+    const slice = await (await source.slice(offset, Math.min(offset + HASH_SLICE_SIZE, end))).arrayBuffer();
+    hash.update(new Uint8Array(slice));
+  }
+}
+
+// Hex SHA-256 of a file, blob or other byte source
+export async function hashBlob(blob: ByteSource): Promise<string> {
+  const hash = sha256.create();
+  await updateHash(hash, blob, 0, blob.size);
+  return bytesToHex(hash.digest());
+}
@@ -0,0 +1,260 @@
+// Destinations for received file data. Every sink accepts positioned writes
+// so chunks can arrive in any order, and keeps memory use bounded where the
+// browser allows it.
+
+export interface FileSink {
+  // True when data goes straight to a file the user picked, so there is
+  // nothing left to download once the sink is closed
+  readonly savesToDisk: boolean;
+  write(position: number, data: ArrayBuffer): Promise<void>;
+  // Drop everything written so far, e.g. when a download restarts from byte 0
+  // with different chunk boundaries
+  reset(): Promise<void>;
+  // Resolves with the assembled file (read back from disk for saved files)
+  close(): Promise<Blob>;
+  abort(): Promise<void>;
+  // Release anything still held after the result has been handed to the user
+  dispose(): Promise<void>;
+}
+
+// Files up to this size are simply collected in memory
+export const MEMORY_SINK_LIMIT = 64 * 1024 * 1024;
+
+// The IndexedDB spool flushes to disk whenever this much is buffered
+const SPOOL_FLUSH_BYTES = 4 * 1024 * 1024;
+const SPOOL_DB_NAME = 'pixeldrop-spool';
+const SPOOL_STORE = 'chunks';
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+}
+
+type SaveFilePicker = (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+type DirectoryPicker = (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+// The pickers are not in TypeScript's DOM types yet
+type PickerWindow = Window & { showSaveFilePicker?: SaveFilePicker; showDirectoryPicker?: DirectoryPicker };
+
+export function supportsFileSystemAccess(): boolean {
+  return typeof (window as PickerWindow).showSaveFilePicker === 'function';
+}
+
+export function supportsDirectoryAccess(): boolean {
+  return typeof (window as PickerWindow).showDirectoryPicker === 'function';
+}
+
+class MemorySink implements FileSink {
+  readonly savesToDisk = false;
+  private parts = new Map<number, ArrayBuffer>();
+
+  constructor(private fileType: string) {}
+
+  async write(position: number, data: ArrayBuffer) {
+    this.parts.set(position, data);
+  }
+
+  async reset() {
+    this.parts.clear();
+  }
+
+  async close() {
+    const ordered = Array.from(this.parts.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, data]) => data);
+    this.parts.clear();
+    return new Blob(ordered, { type: this.fileType });
+  }
+
+  async abort() {
+    this.parts.clear();
+  }
+
+  async dispose() {}
+}
+
+class FileSystemSink implements FileSink {
+  readonly savesToDisk = true;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private handle: FileSystemFileHandle, private writable: FileSystemWritableFileStream) {}
+
+  // Writes are chained because the underlying stream only accepts one at a time
+  write(position: number, data: ArrayBuffer) {
+    this.queue = this.queue.then(() => this.writable.write({ type: 'write', position, data }));
+    return this.queue;
+  }
+
+  reset() {
+    this.queue = this.queue.then(() => this.writable.truncate(0));
+    return this.queue;
+  }
+
+  async close() {
+    await this.queue;
+    await this.writable.close();
+    return this.handle.getFile();
+  }
+
+  async abort() {
+    await this.queue.catch(() => undefined);
+    await this.writable.abort();
+  }
+
+  async dispose() {}
+}
+
+function openSpoolDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SPOOL_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SPOOL_STORE, { keyPath: ['spoolId', 'position'] });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completeTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+class IndexedDbSpoolSink implements FileSink {
+  readonly savesToDisk = false;
+  private pending: Array<{ position: number; blob: Blob }> = [];
+  private pendingBytes = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private range: IDBKeyRange;
+
+  constructor(private db: IDBDatabase, private spoolId: string, private fileType: string) {
+    this.range = IDBKeyRange.bound([spoolId, 0], [spoolId, Infinity]);
+  }
+
+  async write(position: number, data: ArrayBuffer) {
+    this.pending.push({ position, blob: new Blob([data]) });
+    this.pendingBytes += data.byteLength;
+    if (this.pendingBytes >= SPOOL_FLUSH_BYTES) {
+      await this.flush();
+    }
+  }
+
+  async reset() {
+    this.pending = [];
+    this.pendingBytes = 0;
+    await this.queue.catch(() => undefined);
+    await this.dispose();
+  }
+
+  private flush() {
+    const batch = this.pending;
+    this.pending = [];
+    this.pendingBytes = 0;
+
+    this.queue = this.queue.then(async () => {
+      if (batch.length === 0) return;
+      const tx = this.db.transaction(SPOOL_STORE, 'readwrite');
+      const store = tx.objectStore(SPOOL_STORE);
+      for (const { position, blob } of batch) {
+        store.put({ spoolId: this.spoolId, position, blob });
+      }
+      await completeTransaction(tx);
+    });
+    return this.queue;
+  }
+
+  async close() {
+    await this.flush();
+
+    const tx = this.db.transaction(SPOOL_STORE, 'readonly');
+    const request = tx.objectStore(SPOOL_STORE).getAll(this.range);
+    await completeTransaction(tx);
+
+    // Records come back in key order, i.e. sorted by position
+    const blobs = (request.result as Array<{ blob: Blob }>).map(record => record.blob);
+    return new Blob(blobs, { type: this.fileType });
+  }
+
+  async abort() {
+    await this.reset();
+  }
+
+  async dispose() {
+    const tx = this.db.transaction(SPOOL_STORE, 'readwrite');
+    tx.objectStore(SPOOL_STORE).delete(this.range);
+    await completeTransaction(tx);
+  }
+}
+
+// Ask the user where to save a file. Must run inside a user gesture; returns
+// null when the API is unavailable or the picker is dismissed.
+export async function pickFileSystemSink(fileName: string): Promise<FileSink | null> {
+  if (!supportsFileSystemAccess()) return null;
+
+  try {
+    const handle = await (window as PickerWindow).showSaveFilePicker!({ suggestedName: fileName });
+    return new FileSystemSink(handle, await handle.createWritable());
+  } catch (error) {
+    console.log('Save location not chosen, falling back to browser download:', error);
+    return null;
+  }
+}
+
+// Ask the user for a directory to recreate a received folder in. Same rules
+// as pickFileSystemSink: needs a user gesture, null when not chosen.
+export async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  if (!supportsDirectoryAccess()) return null;
+
+  try {
+    return await (window as PickerWindow).showDirectoryPicker!({ mode: 'readwrite' });
+  } catch (error) {
+    console.log('Folder not chosen, falling back to a zip download:', error);
+    return null;
+  }
+}
+
+// Write to relativePath below the chosen directory, creating the folders on
+// the way. Paths were validated against relativePathSchema by the server.
+export async function openDirectorySink(directory: FileSystemDirectoryHandle, relativePath: string): Promise<FileSink> {
+  const segments = relativePath.split('/');
+  const fileName = segments.pop()!;
+  let parent = directory;
+  for (const segment of segments) {
+    parent = await parent.getDirectoryHandle(segment, { create: true });
+  }
+
+  const handle = await parent.getFileHandle(fileName, { create: true });
+  return new FileSystemSink(handle, await handle.createWritable());
+}
+
+export async function createFileSink(spoolId: string, fileSize: number, fileType: string): Promise<FileSink> {
+  if (fileSize <= MEMORY_SINK_LIMIT || typeof indexedDB === 'undefined') {
+    return new MemorySink(fileType);
+  }
+
+  try {
+    return new IndexedDbSpoolSink(await openSpoolDb(), spoolId, fileType);
+  } catch (error) {
+    console.error('IndexedDB spool unavailable, buffering in memory:', error);
+    return new MemorySink(fileType);
+  }
+}
+
+export function triggerDownload(blob: Blob, fileName: string, onDone?: () => void) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.style.display = 'none';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+
+  // Clean up object URL after a short delay to ensure download starts
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+    onDone?.();
+  }, 1000);
+}
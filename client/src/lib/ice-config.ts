@@ -0,0 +1,42 @@
+import type { IceConfig } from "@shared/schema";
+
+// ICE servers come from the server (GET /api/ice-config) so deployments can
+// add TURN or run without any. The request carries an ICE token bound to this
+// device (see RelayTokenStore). The list is cached until its TURN credentials
+// are about to expire; concurrent callers share one request.
+
+// Credentials this close to expiring are refreshed instead of used
+const EXPIRY_MARGIN = 5 * 60 * 1000;
+
+let cached: IceConfig | null = null;
+let pending: Promise<IceConfig> | null = null;
+
+function isFresh(config: IceConfig) {
+  return config.expiresAt === null || config.expiresAt - Date.now() > EXPIRY_MARGIN;
+}
+
+async function fetchIceConfig(deviceId: string, getToken: () => Promise<string>): Promise<IceConfig> {
+  const response = await fetch(`/api/ice-config?deviceId=${encodeURIComponent(deviceId)}`, {
+    headers: { 'Authorization': `Bearer ${await getToken()}` }
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+export async function getIceServers(deviceId: string, getToken: () => Promise<string>): Promise<RTCIceServer[]> {
+  if (cached && isFresh(cached)) return cached.iceServers;
+
+  if (!pending) {
+    pending = fetchIceConfig(deviceId, getToken).finally(() => { pending = null; });
+  }
+  try {
+    cached = await pending;
+  } catch (error) {
+    // Stale servers still beat none; without any, only host candidates are tried
+    console.warn('Failed to load ICE servers:', error);
+    return cached?.iceServers ?? [];
+  }
+  return cached.iceServers;
+}
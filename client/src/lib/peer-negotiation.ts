@@ -0,0 +1,232 @@
+// Negotiation for one peer connection, following the "perfect negotiation"
+// pattern: either side may (re)negotiate, and when both send an offer at once
+// the polite side rolls its own back while the impolite side ignores the
+// incoming one. Candidates that arrive before the remote description are
+// queued instead of dropped.
+//
+// A connection that stops making ICE progress, or goes disconnected/failed,
+// gets an ICE restart; only when MAX_ICE_RESTARTS are used up is it reported
+// as failed, so callers fall back based on what ICE actually did rather than
+// on a fixed timer.
+
+export interface PeerNegotiatorOptions {
+  // Exactly one side of a connection is polite
+  polite: boolean;
+  sendDescription: (description: RTCSessionDescriptionInit) => void;
+  sendCandidate: (candidate: RTCIceCandidateInit) => void;
+  // Called once, after which the negotiator no longer touches the connection
+  onFailed: () => void;
+}
+
+export const MAX_ICE_RESTARTS = 2;
+// No new candidates, state changes or connectivity checks answered for this
+// long means the current attempt is stuck
+const ICE_STALL_TIMEOUT = 5000;
+// A disconnected connection often recovers by itself within a moment
+const DISCONNECT_GRACE = 2000;
+
+export class PeerNegotiator {
+  private makingOffer = false;
+  private ignoreOffer = false;
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+  private restarts = 0;
+  // Connectivity checks answered so far, summed over all candidate pairs
+  private checkActivity = 0;
+  private stallTimer?: ReturnType<typeof setTimeout>;
+  private disconnectTimer?: ReturnType<typeof setTimeout>;
+  private closed = false;
+
+  constructor(private pc: RTCPeerConnection, private options: PeerNegotiatorOptions) {
+    pc.addEventListener('negotiationneeded', this.handleNegotiationNeeded);
+    pc.addEventListener('icecandidate', this.handleLocalCandidate);
+    pc.addEventListener('iceconnectionstatechange', this.handleIceStateChange);
+    pc.addEventListener('connectionstatechange', this.handleConnectionStateChange);
+    pc.addEventListener('icegatheringstatechange', this.noteProgress);
+    pc.addEventListener('signalingstatechange', this.noteProgress);
+    this.noteProgress();
+  }
+
+  // An offer or answer from the other side
+  async handleDescription(description: RTCSessionDescriptionInit) {
+    if (this.closed) return;
+
+    const offerCollision = description.type === 'offer' &&
+      (this.makingOffer || this.pc.signalingState !== 'stable');
+    this.ignoreOffer = !this.options.polite && offerCollision;
+    if (this.ignoreOffer) {
+      console.log('Ignoring colliding offer, ours takes precedence');
+      return;
+    }
+
+    try {
+      // Setting a remote offer rolls back our own pending offer if there is one
+      await this.pc.setRemoteDescription(description);
+      this.noteProgress();
+      await this.flushCandidates();
+
+      if (description.type === 'offer') {
+        await this.pc.setLocalDescription();
+        this.sendLocalDescription();
+      }
+    } catch (error) {
+      console.error('Failed to apply remote description:', error);
+    }
+  }
+
+  async handleCandidate(candidate: RTCIceCandidateInit) {
+    if (this.closed) return;
+    this.noteProgress();
+
+    if (!this.pc.remoteDescription) {
+      this.pendingCandidates.push(candidate);
+      return;
+    }
+    await this.addCandidate(candidate);
+  }
+
+  close() {
+    this.closed = true;
+    this.clearTimers();
+    this.pendingCandidates = [];
+    this.pc.removeEventListener('negotiationneeded', this.handleNegotiationNeeded);
+    this.pc.removeEventListener('icecandidate', this.handleLocalCandidate);
+    this.pc.removeEventListener('iceconnectionstatechange', this.handleIceStateChange);
+    this.pc.removeEventListener('connectionstatechange', this.handleConnectionStateChange);
+    this.pc.removeEventListener('icegatheringstatechange', this.noteProgress);
+    this.pc.removeEventListener('signalingstatechange', this.noteProgress);
+  }
+
+  private async addCandidate(candidate: RTCIceCandidateInit) {
+    try {
+      await this.pc.addIceCandidate(candidate);
+    } catch (error) {
+      // Candidates belonging to an offer we ignored are expected to fail
+      if (!this.ignoreOffer) {
+        console.warn('Failed to add ICE candidate:', error);
+      }
+    }
+  }
+
+  private async flushCandidates() {
+    const candidates = this.pendingCandidates;
+    this.pendingCandidates = [];
+    for (const candidate of candidates) {
+      await this.addCandidate(candidate);
+    }
+  }
+
+  private sendLocalDescription() {
+    const description = this.pc.localDescription;
+    if (description && !this.closed) {
+      this.options.sendDescription(description.toJSON());
+    }
+  }
+
+  private handleNegotiationNeeded = async () => {
+    try {
+      this.makingOffer = true;
+      await this.pc.setLocalDescription();
+      this.sendLocalDescription();
+    } catch (error) {
+      console.error('Failed to create offer:', error);
+    } finally {
+      this.makingOffer = false;
+    }
+  };
+
+  private handleLocalCandidate = (event: RTCPeerConnectionIceEvent) => {
+    this.noteProgress();
+    if (event.candidate) {
+      this.options.sendCandidate(event.candidate.toJSON());
+    }
+  };
+
+  private handleIceStateChange = () => {
+    const state = this.pc.iceConnectionState;
+    console.log(`ICE connection state changed to: ${state}`);
+
+    switch (state) {
+      case 'connected':
+      case 'completed':
+        // A later drop gets a fresh set of restarts
+        this.restarts = 0;
+        this.clearTimers();
+        break;
+      case 'disconnected':
+        clearTimeout(this.stallTimer);
+        clearTimeout(this.disconnectTimer);
+        this.disconnectTimer = setTimeout(() => this.recover('connection lost'), DISCONNECT_GRACE);
+        break;
+      case 'failed':
+        this.recover('ICE failed');
+        break;
+      default:
+        this.noteProgress();
+    }
+  };
+
+  // DTLS can fail on a path ICE considers fine
+  private handleConnectionStateChange = () => {
+    if (this.pc.connectionState === 'failed' && this.pc.iceConnectionState !== 'failed') {
+      this.recover('connection failed');
+    }
+  };
+
+  private isConnected() {
+    return this.pc.iceConnectionState === 'connected' || this.pc.iceConnectionState === 'completed';
+  }
+
+  // Something happened, so give the current attempt another stall period
+  private noteProgress = () => {
+    if (this.closed || this.isConnected() || this.pc.iceConnectionState === 'disconnected') return;
+    clearTimeout(this.stallTimer);
+    this.stallTimer = setTimeout(() => this.checkStalled(), ICE_STALL_TIMEOUT);
+  };
+
+  // Connectivity checks still being answered count as progress too
+  private async checkStalled() {
+    if (this.closed || this.isConnected()) return;
+
+    let activity = 0;
+    try {
+      const stats = await this.pc.getStats();
+      stats.forEach(report => {
+        if (report.type === 'candidate-pair') {
+          activity += (report.responsesReceived ?? 0) + (report.requestsReceived ?? 0);
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to read ICE stats:', error);
+    }
+
+    if (activity > this.checkActivity) {
+      this.checkActivity = activity;
+      this.noteProgress();
+      return;
+    }
+    this.recover('no ICE progress');
+  }
+
+  private recover(reason: string) {
+    if (this.closed) return;
+    this.clearTimers();
+
+    if (this.restarts >= MAX_ICE_RESTARTS) {
+      console.log(`Giving up on peer connection (${reason}) after ${this.restarts} ICE restarts`);
+      this.close();
+      this.options.onFailed();
+      return;
+    }
+
+    this.restarts++;
+    console.log(`Restarting ICE (${reason}), attempt ${this.restarts}/${MAX_ICE_RESTARTS}`);
+    // Fires negotiationneeded once the connection is stable, which sends the new offer
+    this.pc.restartIce();
+    this.noteProgress();
+  }
+
+  private clearTimers() {
+    clearTimeout(this.stallTimer);
+    clearTimeout(this.disconnectTimer);
+  }
+}
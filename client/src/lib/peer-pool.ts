@@ -0,0 +1,117 @@
+// One peer connection per remote device, shared by every transfer between
+// the two: each transfer opens its own data channels on it, tagged with its
+// transferId as the channel protocol. A connection nobody uses any more stays
+// open for the idle timeout so the next transfer skips ICE and DTLS setup.
+// Signaling for a pooled connection is addressed by its connectionId.
+
+import type { PeerNegotiator } from "@/lib/peer-negotiation";
+
+export const PEER_IDLE_SETTING_KEY = 'peerIdleSeconds';
+const DEFAULT_PEER_IDLE_SECONDS = 120;
+
+export interface PooledPeer {
+  connectionId: string;
+  // The device at the other end
+  deviceId: string;
+  // The transfer the connection was opened for; signaling names it so the
+  // server can tell the two devices belong together
+  transferId: string;
+  peerConnection: RTCPeerConnection;
+  negotiator: PeerNegotiator;
+  // Transfers (or batches) with channels on the connection
+  transfers: Set<string>;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+// 0 closes a connection as soon as its last transfer is done
+export function getPeerIdleSeconds(): number {
+  const saved = Number(localStorage.getItem(PEER_IDLE_SETTING_KEY) ?? DEFAULT_PEER_IDLE_SECONDS);
+  return Number.isFinite(saved) && saved >= 0 ? saved : DEFAULT_PEER_IDLE_SECONDS;
+}
+
+export function createConnectionId() {
+  return `connection_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function isUsable(peer: PooledPeer) {
+  return !['failed', 'closed'].includes(peer.peerConnection.connectionState);
+}
+
+export class PeerPool {
+  private peers = new Map<string, PooledPeer>();
+
+  get(connectionId: string): PooledPeer | undefined {
+    return this.peers.get(connectionId);
+  }
+
+  // A live connection to the device, preferring one that is already connected
+  find(deviceId: string): PooledPeer | undefined {
+    const candidates = Array.from(this.peers.values()).filter(peer => peer.deviceId === deviceId && isUsable(peer));
+    return candidates.find(peer => peer.peerConnection.connectionState === 'connected') ?? candidates[0];
+  }
+
+  // The connection a transfer's channels are on
+  holding(transferId: string): PooledPeer | undefined {
+    return Array.from(this.peers.values()).find(peer => peer.transfers.has(transferId));
+  }
+
+  add(peer: PooledPeer) {
+    this.peers.set(peer.connectionId, peer);
+  }
+
+  attach(peer: PooledPeer, transferId: string) {
+    clearTimeout(peer.idleTimer);
+    peer.idleTimer = undefined;
+    peer.transfers.add(transferId);
+  }
+
+  // The connection is closed once it has been unused for the idle timeout
+  detach(transferId: string) {
+    const peer = this.holding(transferId);
+    if (!peer) return;
+
+    peer.transfers.delete(transferId);
+    if (peer.transfers.size > 0) return;
+
+    const idleSeconds = getPeerIdleSeconds();
+    if (idleSeconds === 0) {
+      this.close(peer);
+      return;
+    }
+    clearTimeout(peer.idleTimer);
+    peer.idleTimer = setTimeout(() => {
+      console.log(`Closing idle connection to ${peer.deviceId}`);
+      this.close(peer);
+    }, idleSeconds * 1000);
+  }
+
+  // Drop a connection without closing it, e.g. after its negotiator gave up
+  remove(peer: PooledPeer) {
+    clearTimeout(peer.idleTimer);
+    if (this.peers.get(peer.connectionId) === peer) {
+      this.peers.delete(peer.connectionId);
+    }
+  }
+
+  close(peer: PooledPeer) {
+    this.remove(peer);
+    peer.negotiator.close();
+    peer.peerConnection.ondatachannel = null;
+    peer.peerConnection.close();
+  }
+
+  // Unused connections to devices that went offline are closed right away
+  retain(onlineDeviceIds: string[]) {
+    for (const peer of Array.from(this.peers.values())) {
+      if (peer.transfers.size === 0 && !onlineDeviceIds.includes(peer.deviceId)) {
+        this.close(peer);
+      }
+    }
+  }
+
+  closeAll() {
+    for (const peer of Array.from(this.peers.values())) {
+      this.close(peer);
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import type { FileSink } from "@/lib/file-sink";
+import type { ByteSource } from "@/lib/file-hash";
+
+// End-to-end encryption for files that go through the relay. Sender and
+// receiver each put an ephemeral ECDH P-256 public key into the signaling
+// messages (transfer-offer / transfer-answer) and derive a per-transfer
+// AES-256-GCM key with HKDF, so the relay only ever stores ciphertext.
+// Between paired devices both keys are signed with the device identity keys,
+// so a server that swaps them in transit is caught. Unpaired devices get no
+// such check, and the transfer shows its key as unverified.
+//
+// Files are sealed in fixed-size records, each with its own tag. The record
+// index is the nonce and the record count is bound in as additional data, so
+// records can be neither reordered nor dropped. Sealing is deterministic per
+// (key, index), which lets a resumed upload recompute any ciphertext range.
+
+export const RELAY_ENCRYPTION = 'aes-256-gcm-v1';
+
+const RECORD_SIZE = 64 * 1024;
+const TAG_SIZE = 16;
+const SEALED_RECORD_SIZE = RECORD_SIZE + TAG_SIZE;
+
+// WebCrypto is only exposed in secure contexts (HTTPS or localhost)
+export function supportsRelayEncryption(): boolean {
+  return typeof crypto !== 'undefined' && crypto.subtle !== undefined;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(bytes)));
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+export function generateRelayKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+}
+
+export async function exportRelayPublicKey(keyPair: CryptoKeyPair): Promise<string> {
+  return bytesToBase64(new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)));
+}
+
+// Both sides arrive at the same key from their own key pair and the peer's public key
+export async function deriveRelayKey(keyPair: CryptoKeyPair, peerPublicKey: string, transferId: string): Promise<CryptoKey> {
+  const peerKey = await crypto.subtle.importKey(
+    'raw', base64ToBytes(peerPublicKey), { name: 'ECDH', namedCurve: 'P-256' }, false, []
+  );
+  const secret = await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, keyPair.privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+
+  const encoder = new TextEncoder();
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(transferId), info: encoder.encode(RELAY_ENCRYPTION) },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function recordCount(plainSize: number) {
+  return Math.ceil(plainSize / RECORD_SIZE);
+}
+
+export function encryptedSize(plainSize: number) {
+  return plainSize + recordCount(plainSize) * TAG_SIZE;
+}
+
+export function decryptedSize(cipherSize: number) {
+  return cipherSize - Math.ceil(cipherSize / SEALED_RECORD_SIZE) * TAG_SIZE;
+}
+
+function recordParams(index: number, count: number): AesGcmParams {
+  const iv = new Uint8Array(12);
+  new DataView(iv.buffer).setUint32(8, index);
+  const additionalData = new Uint8Array(4);
+  new DataView(additionalData.buffer).setUint32(0, count);
+  return { name: 'AES-GCM', iv, additionalData };
+}
+
+// Ciphertext view of a file that seals only the records a requested range touches
+export class EncryptedFileSource implements ByteSource {
+  readonly size: number;
+  private count: number;
+
+  constructor(private file: Blob, private key: CryptoKey) {
+    this.size = encryptedSize(file.size);
+    this.count = recordCount(file.size);
+  }
+
+  async slice(start: number, end: number): Promise<Blob> {
+    const first = Math.floor(start / SEALED_RECORD_SIZE);
+    const last = Math.min(this.count, Math.ceil(end / SEALED_RECORD_SIZE));
+
+    const sealed: ArrayBuffer[] = [];
+    for (let i = first; i < last; i++) {
+      const plain = await this.file.slice(i * RECORD_SIZE, (i + 1) * RECORD_SIZE).arrayBuffer();
+      sealed.push(await crypto.subtle.encrypt(recordParams(i, this.count), this.key, plain));
+    }
+
+    const offset = first * SEALED_RECORD_SIZE;
+    return new Blob(sealed).slice(start - offset, end - offset);
+  }
+}
+
+// Opens sealed records as they stream in and writes the plaintext to `inner`.
+// Ciphertext has to arrive in order, which the relay download guarantees
+// since it only ever appends or restarts from byte 0.
+export class DecryptingSink implements FileSink {
+  private buffer = new Uint8Array(0);
+  private received = 0;
+  private index = 0;
+  private count: number;
+
+  constructor(private inner: FileSink, private key: CryptoKey, cipherSize: number) {
+    this.count = Math.ceil(cipherSize / SEALED_RECORD_SIZE);
+  }
+
+  get savesToDisk() {
+    return this.inner.savesToDisk;
+  }
+
+  async write(position: number, data: ArrayBuffer) {
+    if (position !== this.received) {
+      throw new Error(`Encrypted data out of order at byte ${position}, expected ${this.received}`);
+    }
+
+    const joined = new Uint8Array(this.buffer.byteLength + data.byteLength);
+    joined.set(this.buffer);
+    joined.set(new Uint8Array(data), this.buffer.byteLength);
+    this.buffer = joined;
+    this.received += data.byteLength;
+
+    while (this.buffer.byteLength >= SEALED_RECORD_SIZE) {
+      await this.openRecord(this.buffer.slice(0, SEALED_RECORD_SIZE));
+      this.buffer = this.buffer.slice(SEALED_RECORD_SIZE);
+    }
+  }
+
+  private async openRecord(sealed: Uint8Array) {
+    let plain: ArrayBuffer;
+    try {
+      plain = await crypto.subtle.decrypt(recordParams(this.index, this.count), this.key, sealed);
+    } catch {
+      throw new Error(`Encrypted record ${this.index} failed authentication`);
+    }
+    await this.inner.write(this.index * RECORD_SIZE, plain);
+    this.index++;
+  }
+
+  async reset() {
+    this.buffer = new Uint8Array(0);
+    this.received = 0;
+    this.index = 0;
+    await this.inner.reset();
+  }
+
+  async close() {
+    // The last record is usually shorter than the others
+    if (this.buffer.byteLength > 0) {
+      await this.openRecord(this.buffer);
+      this.buffer = new Uint8Array(0);
+    }
+    if (this.index !== this.count) {
+      throw new Error(`Encrypted file is truncated: ${this.index}/${this.count} records`);
+    }
+    return this.inner.close();
+  }
+
+  abort() {
+    return this.inner.abort();
+  }
+
+  dispose() {
+    return this.inner.dispose();
+  }
+}
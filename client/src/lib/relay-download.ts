@@ -0,0 +1,134 @@
+import type { FileSink } from "@/lib/file-sink";
+
+// Client for the relay download endpoint. The body is streamed into a sink,
+// and a dropped connection is resumed with `Range` + `If-Range` so only the
+// missing tail is fetched again, as long as the relay still holds the same
+// content (same ETag). Download tokens are single-use, so each request
+// presents a fresh one.
+
+export interface RelayDownloadOptions {
+  // Called once, when the first response reveals the size, type and encryption
+  // scheme of the stored file
+  openSink: (file: RelayFileInfo) => Promise<FileSink>;
+  // A new download token for every request (see RelayTokenStore)
+  getToken: () => Promise<string>;
+  onProgress?: (received: number, total: number) => void;
+  // Stops the download for good, e.g. when the transfer is paused or cancelled
+  signal?: AbortSignal;
+}
+
+export interface RelayFileInfo {
+  size: number;
+  type: string;
+  // Set when the sender encrypted the file before uploading it
+  encryption: string | null;
+}
+
+export interface RelayDownloadResult {
+  sink: FileSink;
+  // Hex SHA-256 the relay verified on upload, of the stored bytes (the
+  // ciphertext for encrypted files)
+  sha256: string | null;
+}
+
+const MAX_ATTEMPTS = 3;
+
+function downloadUrl(transferId: string) {
+  return `/api/transfer/${encodeURIComponent(transferId)}/download`;
+}
+
+// Start of the range a 206 response actually covers
+function rangeStart(response: Response): number | null {
+  const match = /^bytes (\d+)-\d+\/\d+$/.exec(response.headers.get('Content-Range') || '');
+  return match ? Number(match[1]) : null;
+}
+
+export async function downloadFromRelay(transferId: string, options: RelayDownloadOptions): Promise<RelayDownloadResult> {
+  let sink: FileSink | null = null;
+  let etag: string | null = null;
+  let sha256: string | null = null;
+  let position = 0;
+  let total = 0;
+  let attempt = 0;
+
+  try {
+    while (true) {
+      const headers: Record<string, string> = {
+        'Authorization': `Bearer ${await options.getToken()}`
+      };
+      if (etag && position > 0) {
+        headers['Range'] = `bytes=${position}-`;
+        headers['If-Range'] = etag;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(downloadUrl(transferId), { headers, signal: options.signal });
+      } catch (error) {
+        if (options.signal?.aborted || ++attempt >= MAX_ATTEMPTS) throw error;
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+        continue;
+      }
+
+      if (response.status === 416) {
+        // Our offset no longer fits the stored file; start over
+        etag = null;
+        position = 0;
+        continue;
+      }
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP ${response.status}: ${errorText}`);
+      }
+
+      if (response.status === 206) {
+        if (!sink || rangeStart(response) !== position) {
+          etag = null;
+          position = 0;
+          continue;
+        }
+        console.log(`Resuming relay download for ${transferId} at byte ${position}`);
+      } else {
+        // A full response: either the first one or the file changed under us
+        etag = response.headers.get('ETag');
+        sha256 = response.headers.get('X-Content-SHA256');
+        total = Number(response.headers.get('Content-Length')) || 0;
+        position = 0;
+        if (sink) {
+          await sink.reset();
+        } else {
+          sink = await options.openSink({
+            size: total,
+            type: response.headers.get('Content-Type') || 'application/octet-stream',
+            encryption: response.headers.get('X-Relay-Encryption')
+          });
+        }
+      }
+
+      try {
+        if (response.body) {
+          const reader = response.body.getReader();
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            await sink.write(position, value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength));
+            position += value.byteLength;
+            options.onProgress?.(position, total);
+          }
+        }
+        if (position < total) {
+          throw new TypeError('Relay download ended early');
+        }
+        return { sink, sha256 };
+      } catch (error) {
+        // Only network failures are worth resuming; sink errors are final
+        if (!(error instanceof TypeError) || ++attempt >= MAX_ATTEMPTS) throw error;
+        console.log(`Relay download for ${transferId} interrupted at byte ${position}, retrying`);
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+  } catch (error) {
+    await sink?.abort().catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import type { RelayTokenScope } from "@shared/schema";
+
+// Relay requests carry a token the server hands out over the WebSocket: the
+// sender's upload token arrives with its offer, the receiver's download token
+// when it accepts, and fresh ones are fetched with `relay-token-request`.
+// Download tokens are single-use, so every download attempt takes a new one.
+
+const REQUEST_TIMEOUT = 10000;
+// Tokens this close to expiring are replaced instead of used
+const EXPIRY_MARGIN = 30000;
+
+interface StoredToken {
+  token: string;
+  expiresAt: number;
+}
+
+function tokenKey(transferId: string, scope: RelayTokenScope) {
+  return `${scope}:${transferId}`;
+}
+
+export class RelayTokenStore {
+  private tokens = new Map<string, StoredToken>();
+  private waiters = new Map<string, Array<(token: string) => void>>();
+  // How to ask for another token while callers are still waiting
+  private requests = new Map<string, () => void>();
+
+  put(transferId: string, scope: RelayTokenScope, token: string, expiresAt: number) {
+    const key = tokenKey(transferId, scope);
+    const waiting = this.waiters.get(key);
+
+    // A download token is spent by its first use, so it goes to one waiter
+    // and the next one needs a fresh token
+    if (waiting && scope === 'download') {
+      const next = waiting.shift()!;
+      if (waiting.length > 0) {
+        this.requests.get(key)?.();
+      } else {
+        this.stopWaiting(key);
+      }
+      next(token);
+      return;
+    }
+
+    if (waiting) {
+      this.stopWaiting(key);
+      waiting.forEach(resolve => resolve(token));
+    }
+    this.tokens.set(key, { token, expiresAt });
+  }
+
+  // A usable token, asking the server through `request` when none is held
+  take(transferId: string, scope: RelayTokenScope, request: () => void): Promise<string> {
+    const key = tokenKey(transferId, scope);
+    const stored = this.tokens.get(key);
+    if (stored && stored.expiresAt - Date.now() > EXPIRY_MARGIN) {
+      if (scope === 'download') this.tokens.delete(key);
+      return Promise.resolve(stored.token);
+    }
+    this.tokens.delete(key);
+
+    return new Promise((resolve, reject) => {
+      const waiter = (token: string) => {
+        clearTimeout(timeoutId);
+        resolve(token);
+      };
+      const timeoutId = setTimeout(() => {
+        const waiting = this.waiters.get(key)?.filter(w => w !== waiter);
+        if (waiting?.length) this.waiters.set(key, waiting);
+        else this.stopWaiting(key);
+        reject(new Error(`Timed out waiting for a relay ${scope} token`));
+      }, REQUEST_TIMEOUT);
+
+      const waiting = this.waiters.get(key);
+      if (waiting) {
+        waiting.push(waiter);
+      } else {
+        this.waiters.set(key, [waiter]);
+        this.requests.set(key, request);
+        request();
+      }
+    });
+  }
+
+  private stopWaiting(key: string) {
+    this.waiters.delete(key);
+    this.requests.delete(key);
+  }
+
+  forget(transferId: string) {
+    this.tokens.delete(tokenKey(transferId, 'upload'));
+    this.tokens.delete(tokenKey(transferId, 'download'));
+  }
+}
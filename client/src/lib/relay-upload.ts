@@ -0,0 +1,171 @@
+// Client for the resumable relay upload API: a session is created with the
+// total length, filled with PATCH requests at byte offsets and finalized once
+// every byte has arrived. HEAD reports the current offset, so a retry always
+// continues where the previous attempt stopped. The relay refuses to finalize
+// a file whose content does not match the SHA-256 declared by the sender.
+// Every request carries the sender's upload token for the transfer.
+
+import { sha256 as createSha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+import { updateHash, type ByteSource, type RunningHash } from "@/lib/file-hash";
+
+export interface RelayUploadOptions {
+  fileName: string;
+  fileType: string;
+  relativePath?: string;
+  // Hex SHA-256 of the uploaded bytes, computed while uploading when not supplied
+  sha256?: string;
+  // Scheme the bytes are encrypted with, recorded so the receiver knows to decrypt
+  encryption?: string;
+  // Upload token for this transfer (see RelayTokenStore)
+  getToken: () => Promise<string>;
+  onProgress?: (uploaded: number, total: number) => void;
+  // Stops the upload; the relay keeps what it has so a later call continues from there
+  signal?: AbortSignal;
+}
+
+// Each PATCH carries at most this many bytes
+export const RELAY_PATCH_SIZE = 1024 * 1024;
+const PATCH_TIMEOUT = 60000;
+
+function uploadUrl(transferId: string) {
+  return `/api/transfer/${encodeURIComponent(transferId)}/upload`;
+}
+
+function readOffset(response: Response): number {
+  const offset = Number(response.headers.get('Upload-Offset'));
+  if (!Number.isFinite(offset)) {
+    throw new Error('Relay response is missing Upload-Offset');
+  }
+  return offset;
+}
+
+async function throwIfNotOk(response: Response) {
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`HTTP ${response.status}: ${errorText}`);
+  }
+}
+
+function authorization(token: string) {
+  return { 'Authorization': `Bearer ${token}` };
+}
+
+// Bytes the relay already holds for this transfer, or null if no session exists
+export async function getRelayUploadOffset(transferId: string, token: string): Promise<number | null> {
+  const response = await fetch(uploadUrl(transferId), { method: 'HEAD', headers: authorization(token) });
+  if (response.status === 404) return null;
+  await throwIfNotOk(response);
+  return readOffset(response);
+}
+
+async function createRelayUpload(transferId: string, file: ByteSource, options: RelayUploadOptions): Promise<number> {
+  const headers: Record<string, string> = {
+    ...authorization(await options.getToken()),
+    'Upload-Length': file.size.toString(),
+    'X-Filename': encodeURIComponent(options.fileName),
+    'X-File-Type': options.fileType || 'application/octet-stream'
+  };
+  if (options.sha256) {
+    headers['X-Content-SHA256'] = options.sha256;
+  }
+  if (options.relativePath) {
+    headers['X-Relative-Path'] = encodeURIComponent(options.relativePath);
+  }
+  if (options.encryption) {
+    headers['X-Relay-Encryption'] = options.encryption;
+  }
+
+  const response = await fetch(uploadUrl(transferId), { method: 'POST', headers });
+  await throwIfNotOk(response);
+  return readOffset(response);
+}
+
+async function patchRelayUpload(transferId: string, body: Blob, offset: number, token: string, signal?: AbortSignal): Promise<number> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PATCH_TIMEOUT);
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+
+  try {
+    const response = await fetch(uploadUrl(transferId), {
+      method: 'PATCH',
+      headers: {
+        ...authorization(token),
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Offset': offset.toString()
+      },
+      body,
+      signal: controller.signal
+    });
+
+    // Someone else moved the offset (e.g. a request we thought failed did land)
+    if (response.status === 409) {
+      return readOffset(response);
+    }
+
+    await throwIfNotOk(response);
+    return readOffset(response);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+// Hashes what the relay holds, in order, as the relay confirms it. Bytes are
+// taken from the request that carried them, so a source that is expensive to
+// read (such as one encrypted on the fly) is read once; only bytes sent by an
+// earlier attempt are read again.
+class UploadHash {
+  private hash: RunningHash = createSha256.create();
+  private hashed = 0;
+
+  constructor(private file: ByteSource) {}
+
+  async advance(offset: number, sent?: { start: number; body: Blob }) {
+    // The relay discarded what it had, so start over
+    if (offset < this.hashed) {
+      this.hash = createSha256.create();
+      this.hashed = 0;
+    }
+    if (sent && sent.start <= this.hashed && offset <= sent.start + sent.body.size) {
+      await updateHash(this.hash, sent.body, this.hashed - sent.start, offset - sent.start);
+    } else {
+      await updateHash(this.hash, this.file, this.hashed, offset);
+    }
+    this.hashed = offset;
+  }
+
+  digest() {
+    return bytesToHex(this.hash.digest());
+  }
+}
+
+export async function uploadToRelay(transferId: string, file: ByteSource, options: RelayUploadOptions): Promise<void> {
+  let offset = await getRelayUploadOffset(transferId, await options.getToken());
+  if (offset === null) {
+    offset = await createRelayUpload(transferId, file, options);
+  } else if (offset > 0) {
+    console.log(`Resuming relay upload for ${transferId} at byte ${offset}`);
+  }
+
+  const hash = options.sha256 ? null : new UploadHash(file);
+  await hash?.advance(offset);
+  options.onProgress?.(offset, file.size);
+
+  while (offset < file.size) {
+    options.signal?.throwIfAborted();
+    const start = offset;
+    const body = await file.slice(start, Math.min(start + RELAY_PATCH_SIZE, file.size));
+    offset = await patchRelayUpload(transferId, body, start, await options.getToken(), options.signal);
+    await hash?.advance(offset, { start, body });
+    options.onProgress?.(offset, file.size);
+  }
+
+  const response = await fetch(`${uploadUrl(transferId)}/complete`, {
+    method: 'POST',
+    headers: { ...authorization(await options.getToken()), 'X-Content-SHA256': options.sha256 ?? hash!.digest() },
+    signal: options.signal
+  });
+  await throwIfNotOk(response);
+}
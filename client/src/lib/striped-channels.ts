@@ -0,0 +1,191 @@
+// Chunk frames are striped across several file channels of one peer
+// connection, since a single SCTP stream rarely fills a fast link. The
+// receiver announces how many it accepts over the control channel. In auto
+// mode the sender then adds or drops channels depending on whether the last
+// change raised the measured throughput.
+
+import {
+  waitForBufferedAmountLow,
+  MAX_BUFFERED_AMOUNT,
+  BUFFERED_AMOUNT_LOW_THRESHOLD
+} from "@/lib/webrtc-utils";
+
+export const MAX_FILE_CHANNELS = 8;
+export const CHANNEL_SETTING_KEY = 'dataChannels';
+// Used when the receiver does not announce a limit, e.g. an older client
+const CHANNEL_LIMIT_WAIT = 2000;
+
+// Throughput is measured over this long before the channel count changes
+const ADAPT_INTERVAL = 2000;
+// Changes smaller than this count as no difference
+const ADAPT_TOLERANCE = 0.1;
+// After this many steady intervals another channel is tried, in case the link got faster
+const PROBE_INTERVALS = 5;
+
+export type ChannelSetting = 'auto' | number;
+
+export interface ChannelLimit {
+  type: 'channel-limit';
+  maxChannels: number;
+}
+
+export function getChannelSetting(): ChannelSetting {
+  const saved = localStorage.getItem(CHANNEL_SETTING_KEY);
+  const count = Number(saved);
+  if (Number.isInteger(count) && count >= 1) return Math.min(count, MAX_FILE_CHANNELS);
+  return 'auto';
+}
+
+// How many file channels this device accepts as a receiver
+export function getChannelLimit(): number {
+  const setting = getChannelSetting();
+  return setting === 'auto' ? MAX_FILE_CHANNELS : setting;
+}
+
+// Sender side: resolves with the receiver's announced limit, 1 if none
+// arrives in time. Call it right after creating the control channel so the
+// announcement cannot slip past.
+export function waitForChannelLimit(controlChannel: RTCDataChannel): Promise<number> {
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = (limit: number) => {
+      clearTimeout(timer);
+      controlChannel.removeEventListener('open', onOpen);
+      controlChannel.removeEventListener('message', onMessage);
+      controlChannel.removeEventListener('close', onClose);
+      resolve(limit);
+    };
+    const onOpen = () => {
+      timer = setTimeout(() => finish(1), CHANNEL_LIMIT_WAIT);
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+      try {
+        const message = JSON.parse(event.data) as ChannelLimit;
+        if (message.type === 'channel-limit' && Number.isInteger(message.maxChannels)) {
+          finish(Math.max(1, Math.min(message.maxChannels, MAX_FILE_CHANNELS)));
+        }
+      } catch {
+        // Not JSON; other handlers deal with it
+      }
+    };
+    const onClose = () => finish(1);
+
+    if (controlChannel.readyState === 'open') {
+      onOpen();
+    } else {
+      controlChannel.addEventListener('open', onOpen);
+    }
+    controlChannel.addEventListener('message', onMessage);
+    controlChannel.addEventListener('close', onClose);
+  });
+}
+
+export class StripedChannels {
+  private channels: RTCDataChannel[];
+  private active: number;
+  private cursor = 0;
+  private sampleStart = 0;
+  private sampleBytes = 0;
+  private lastThroughput?: number;
+  private lastStep = 0;
+  private steadyIntervals = 0;
+
+  // openChannel creates the file channel with the given index; index 0 is the
+  // one that started negotiation
+  constructor(
+    first: RTCDataChannel,
+    private openChannel: (index: number) => RTCDataChannel,
+    private limit: number,
+    private adaptive: boolean,
+    initial: number
+  ) {
+    first.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW_THRESHOLD;
+    this.channels = [first];
+    this.active = 1;
+    this.resize(Math.max(1, Math.min(initial, limit)));
+  }
+
+  get count(): number {
+    return this.active;
+  }
+
+  get all(): RTCDataChannel[] {
+    return this.channels;
+  }
+
+  // The next active channel with room in its send buffer, waiting for one
+  // to drain when all are full; throws once none is open
+  async pick(): Promise<RTCDataChannel> {
+    for (;;) {
+      const open = this.channels.slice(0, this.active).filter(channel => channel.readyState === 'open');
+      if (open.length === 0) {
+        throw new Error('No open file channel');
+      }
+
+      for (let i = 0; i < open.length; i++) {
+        const channel = open[(this.cursor + i) % open.length];
+        if (channel.bufferedAmount <= MAX_BUFFERED_AMOUNT) {
+          this.cursor = (this.cursor + i + 1) % open.length;
+          return channel;
+        }
+      }
+
+      const emptiest = open.reduce((best, channel) => channel.bufferedAmount < best.bufferedAmount ? channel : best);
+      await waitForBufferedAmountLow(emptiest);
+    }
+  }
+
+  // Start a fresh measurement, e.g. after a pause
+  restartSample(now: number) {
+    this.sampleStart = now;
+    this.sampleBytes = 0;
+  }
+
+  // Called with bytes the receiver confirmed; adjusts the channel count in auto mode
+  record(bytes: number, now: number) {
+    if (!this.adaptive) return;
+    if (this.sampleStart === 0) this.restartSample(now);
+    this.sampleBytes += bytes;
+
+    const elapsed = now - this.sampleStart;
+    if (elapsed < ADAPT_INTERVAL) return;
+
+    const throughput = this.sampleBytes / elapsed;
+    const previous = this.lastThroughput;
+    let step: number;
+    if (previous === undefined) {
+      step = 1;
+    } else if (throughput > previous * (1 + ADAPT_TOLERANCE)) {
+      // The last change helped, or more capacity turned up: keep going
+      step = this.lastStep || 1;
+    } else if (throughput < previous * (1 - ADAPT_TOLERANCE)) {
+      step = -this.lastStep || -1;
+    } else if (this.lastStep > 0) {
+      // An added channel that made no difference is dropped again
+      step = -1;
+    } else {
+      step = ++this.steadyIntervals >= PROBE_INTERVALS ? 1 : 0;
+    }
+    if (step !== 0) this.steadyIntervals = 0;
+
+    const before = this.active;
+    this.resize(this.active + step);
+    this.lastStep = this.active - before;
+    this.lastThroughput = throughput;
+    this.restartSample(now);
+    if (this.lastStep !== 0) {
+      console.log(`Striping over ${this.active} channels (${Math.round(throughput)} bytes/ms)`);
+    }
+  }
+
+  // Channels beyond the active count stay open and idle, ready to be used again
+  private resize(target: number) {
+    this.active = Math.max(1, Math.min(target, this.limit));
+    while (this.channels.length < this.active) {
+      const channel = this.openChannel(this.channels.length);
+      channel.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW_THRESHOLD;
+      this.channels.push(channel);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import type { Transfer } from "@shared/schema";
+
+// Files offered in one batch are listed as a single entry with aggregate
+// progress; the files themselves are kept for a per-file breakdown.
+
+export interface TransferGroup {
+  // The transfer itself, or a summary standing in for the whole batch
+  transfer: Transfer;
+  files?: Transfer[];
+}
+
+// Name of the folder a batch carries: the top-level folder its paths share,
+// "files" when several folders were sent together, or undefined for a batch
+// of plain files
+export function batchFolderName(files: Array<{ relativePath?: string | null }>): string | undefined {
+  if (!files.some(file => file.relativePath)) return undefined;
+  const roots = new Set(files.map(file => file.relativePath?.split('/')[0]));
+  return roots.size === 1 ? Array.from(roots)[0] : 'files';
+}
+
+const ACTIVE_STATUSES = ['pending', 'accepted', 'transferring'];
+
+function summarizeBatch(batchId: string, files: Transfer[]): Transfer {
+  const totalSize = files.reduce((total, file) => total + file.fileSize, 0);
+  // Weighted by size so one large file dominates the bar as it should
+  const progress = totalSize > 0
+    ? Math.floor(files.reduce((done, file) => done + file.fileSize * file.progress / 100, 0) / totalSize * 100)
+    : Math.floor(files.reduce((done, file) => done + file.progress, 0) / files.length);
+
+  // Mixed statuses mean the batch is paused, still under way, or finished with failures
+  let status = files[0].status;
+  if (!files.every(file => file.status === status)) {
+    if (files.some(file => file.status === 'paused')) {
+      status = 'paused';
+    } else if (files.some(file => ACTIVE_STATUSES.includes(file.status))) {
+      status = 'transferring';
+    } else {
+      status = files.some(file => file.status === 'integrity-failed') ? 'integrity-failed' : 'failed';
+    }
+  }
+
+  return {
+    ...files[0],
+    transferId: batchId,
+    fileName: batchFolderName(files) ?? `${files.length} files`,
+    fileSize: totalSize,
+    fileType: '',
+    status,
+    progress,
+    bytesTransferred: files.reduce((done, file) => done + file.bytesTransferred, 0)
+  };
+}
+
+export function groupTransfers(transfers: Transfer[]): TransferGroup[] {
+  const groups: TransferGroup[] = [];
+  const batches = new Map<string, Transfer[]>();
+
+  for (const transfer of transfers) {
+    if (!transfer.batchId) {
+      groups.push({ transfer });
+      continue;
+    }
+
+    let files = batches.get(transfer.batchId);
+    if (!files) {
+      files = [];
+      batches.set(transfer.batchId, files);
+      // Placeholder keeps the batch where its first file appeared
+      groups.push({ transfer, files });
+    }
+    files.push(transfer);
+  }
+
+  return groups.map(group => group.files
+    ? { transfer: summarizeBatch(group.transfer.batchId!, group.files), files: group.files }
+    : group);
+}
@@ -0,0 +1,89 @@
+// Speed and time remaining for a running transfer, estimated from the byte
+// counts reported as it goes. Both ends keep their own estimate: the sender
+// counts bytes the receiver confirmed, the receiver counts bytes stored.
+
+import { formatFileSize } from "@/lib/webrtc-utils";
+
+// Speed is averaged over this much recent history
+const SPEED_WINDOW = 5000;
+// Reports closer together than this are merged into one sample
+const SAMPLE_INTERVAL = 200;
+// The server hears about progress at most this often
+export const PROGRESS_REPORT_INTERVAL = 1000;
+
+interface Sample {
+  time: number;
+  bytes: number;
+}
+
+export class ThroughputMeter {
+  private samples: Sample[] = [];
+  readonly startedAt: number;
+  // Time spent paused, which counts toward neither speed nor duration
+  private pausedAt: number | null = null;
+  private pausedMs = 0;
+
+  constructor(now: number) {
+    this.startedAt = now;
+  }
+
+  // bytes is the running total, not the increment
+  record(bytes: number, now: number) {
+    const last = this.samples[this.samples.length - 1];
+    // Started over from an earlier offset, e.g. the relay took over
+    if (last && bytes < last.bytes) this.samples = [];
+
+    const previous = this.samples[this.samples.length - 2];
+    if (previous && last && now - previous.time < SAMPLE_INTERVAL) {
+      last.time = now;
+      last.bytes = bytes;
+    } else {
+      this.samples.push({ time: now, bytes });
+    }
+
+    // Keep one sample at or before the window start so the window stays full
+    while (this.samples.length > 2 && now - this.samples[1].time >= SPEED_WINDOW) {
+      this.samples.shift();
+    }
+  }
+
+  pause(now: number) {
+    if (this.pausedAt === null) this.pausedAt = now;
+  }
+
+  // Speed is measured afresh after a pause, so idle time does not drag it down
+  resume(now: number) {
+    if (this.pausedAt !== null) {
+      this.pausedMs += now - this.pausedAt;
+      this.pausedAt = null;
+    }
+    this.samples = [];
+  }
+
+  // Bytes per second, 0 until there is enough to go on
+  get speed(): number {
+    if (this.samples.length < 2) return 0;
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    const elapsed = last.time - first.time;
+    return elapsed > 0 ? (last.bytes - first.bytes) * 1000 / elapsed : 0;
+  }
+
+  durationMs(now: number): number {
+    const paused = this.pausedMs + (this.pausedAt !== null ? now - this.pausedAt : 0);
+    return Math.max(0, Math.round(now - this.startedAt - paused));
+  }
+}
+
+export function formatSpeed(bytesPerSecond: number): string {
+  return `${formatFileSize(Math.round(bytesPerSecond))}/s`;
+}
+
+// e.g. "45s", "3m 20s", "1h 5m"
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  if (total < 60) return `${total}s`;
+  const minutes = Math.floor(total / 60);
+  if (minutes < 60) return `${minutes}m ${total % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
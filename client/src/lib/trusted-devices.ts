@@ -0,0 +1,51 @@
+import { verifyOffer, verifyAnswer, type SignedOfferFields, type SignedAnswerFields } from "@/lib/device-identity";
+
+// Devices paired through the SAS flow, persisted in localStorage next to the
+// other settings. Only public keys are stored here.
+
+export interface TrustedDevice {
+  deviceId: string;
+  name: string;
+  // Hex identity public key verified during pairing
+  publicKey: string;
+  pairedAt: number;
+}
+
+const STORAGE_KEY = 'trustedDevices';
+export const TRUSTED_DEVICES_CHANGE_EVENT = 'trusted-devices-change';
+
+export function getTrustedDevices(): TrustedDevice[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveTrustedDevices(devices: TrustedDevice[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(devices));
+  window.dispatchEvent(new Event(TRUSTED_DEVICES_CHANGE_EVENT));
+}
+
+export function addTrustedDevice(device: TrustedDevice) {
+  saveTrustedDevices([...getTrustedDevices().filter(d => d.deviceId !== device.deviceId), device]);
+}
+
+export function removeTrustedDevice(deviceId: string) {
+  saveTrustedDevices(getTrustedDevices().filter(d => d.deviceId !== deviceId));
+}
+
+// An offer counts as trusted only if it is signed by the key we paired with
+export async function isTrustedOffer(offer: SignedOfferFields & { signature?: string }): Promise<boolean> {
+  const device = getTrustedDevices().find(d => d.deviceId === offer.senderId);
+  if (!device || !offer.signature) return false;
+  return verifyOffer(offer, offer.signature, device.publicKey);
+}
+
+// Likewise for an answer, signed by the receiver
+export async function isTrustedAnswer(answer: SignedAnswerFields & { signature?: string }): Promise<boolean> {
+  const device = getTrustedDevices().find(d => d.deviceId === answer.receiverId);
+  if (!device || !answer.signature) return false;
+  return verifyAnswer(answer, answer.signature, device.publicKey);
+}
@@ -1,14 +1,8 @@
-export function createPeerConnection(): RTCPeerConnection {
+// ICE servers come from getIceServers; an empty list restricts the
+// connection to host candidates
+export function createPeerConnection(iceServers: RTCIceServer[]): RTCPeerConnection {
   const configuration: RTCConfiguration = {
-    iceServers: [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' },
-      { urls: 'stun:stun2.l.google.com:19302' },
-      { urls: 'stun:stun3.l.google.com:19302' },
-      { urls: 'stun:stun4.l.google.com:19302' },
-      { urls: 'stun:stun.cloudflare.com:3478' },
-      { urls: 'stun:stun.nextcloud.com:443' }
-    ],
+    iceServers,
     iceCandidatePoolSize: 10,
     iceTransportPolicy: 'all'
   };
@@ -16,26 +10,196 @@ export function createPeerConnection(): RTCPeerConnection {
   return new RTCPeerConnection(configuration);
 }
 
-export async function createFileChunks(file: File, chunkSize: number = 16384): Promise<ArrayBuffer[]> {
-  const chunks: ArrayBuffer[] = [];
-  const totalChunks = Math.ceil(file.size / chunkSize);
-  
-  for (let i = 0; i < totalChunks; i++) {
-    const start = i * chunkSize;
-    const end = Math.min(start + chunkSize, file.size);
-    const chunk = file.slice(start, end);
-    const arrayBuffer = await chunk.arrayBuffer();
-    chunks.push(arrayBuffer);
+export const CHUNK_SIZE = 16384;
+
+export function getTotalChunks(fileSize: number, chunkSize: number = CHUNK_SIZE): number {
+  return Math.ceil(fileSize / chunkSize);
+}
+
+// Read a single chunk lazily so only the chunks in flight are ever in memory
+export async function readFileChunk(file: Blob, index: number, chunkSize: number = CHUNK_SIZE): Promise<ArrayBuffer> {
+  const start = index * chunkSize;
+  const end = Math.min(start + chunkSize, file.size);
+  return file.slice(start, end).arrayBuffer();
+}
+
+// Compact record of which chunk indices have arrived
+export class ChunkBitmap {
+  private bits: Uint8Array;
+  count = 0;
+
+  constructor(readonly size: number) {
+    this.bits = new Uint8Array(Math.ceil(size / 8));
   }
-  
-  return chunks;
+
+  has(index: number): boolean {
+    return (this.bits[index >> 3] & (1 << (index & 7))) !== 0;
+  }
+
+  // Returns false for duplicates and out-of-range indices
+  add(index: number): boolean {
+    if (index < 0 || index >= this.size || this.has(index)) return false;
+    this.bits[index >> 3] |= 1 << (index & 7);
+    this.count++;
+    return true;
+  }
+
+  get complete(): boolean {
+    return this.count === this.size;
+  }
+
+  // Half-open [start, end) ranges of indices not yet received
+  missingRanges(): ChunkRange[] {
+    const ranges: ChunkRange[] = [];
+    let start = -1;
+    for (let i = 0; i < this.size; i++) {
+      if (!this.has(i)) {
+        if (start < 0) start = i;
+      } else if (start >= 0) {
+        ranges.push([start, i]);
+        start = -1;
+      }
+    }
+    if (start >= 0) ranges.push([start, this.size]);
+    return ranges;
+  }
+}
+
+export type ChunkRange = [number, number];
+
+export function countChunksInRanges(ranges: ChunkRange[]): number {
+  return ranges.reduce((total, [start, end]) => total + Math.max(0, end - start), 0);
+}
+
+// Binary chunk frames sent over the data channel (big-endian):
+// [u8 version][u8 idLength][transferId utf-8][u32 chunkIndex][u32 payloadLength][payload]
+export const CHUNK_FRAME_VERSION = 1;
+
+// Keep the SCTP send buffer between these marks so large files never queue
+// up more than a few MB inside the browser
+export const MAX_BUFFERED_AMOUNT = 4 * 1024 * 1024;
+export const BUFFERED_AMOUNT_LOW_THRESHOLD = 1024 * 1024;
+
+export interface ChunkFrame {
+  transferId: string;
+  index: number;
+  data: ArrayBuffer;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function encodeChunkFrame(transferId: string, index: number, payload: ArrayBuffer): ArrayBuffer {
+  const idBytes = textEncoder.encode(transferId);
+  if (idBytes.length > 255) {
+    throw new Error(`Transfer id too long for chunk frame: ${transferId}`);
+  }
+
+  const headerLength = 2 + idBytes.length + 8;
+  const frame = new ArrayBuffer(headerLength + payload.byteLength);
+  const view = new DataView(frame);
+  const bytes = new Uint8Array(frame);
+
+  view.setUint8(0, CHUNK_FRAME_VERSION);
+  view.setUint8(1, idBytes.length);
+  bytes.set(idBytes, 2);
+  view.setUint32(2 + idBytes.length, index);
+  view.setUint32(6 + idBytes.length, payload.byteLength);
+  bytes.set(new Uint8Array(payload), headerLength);
+
+  return frame;
+}
+
+export function decodeChunkFrame(frame: ArrayBuffer): ChunkFrame {
+  const view = new DataView(frame);
+  if (frame.byteLength < 10 || view.getUint8(0) !== CHUNK_FRAME_VERSION) {
+    throw new Error('Unsupported chunk frame');
+  }
+
+  const idLength = view.getUint8(1);
+  const headerLength = 2 + idLength + 8;
+  if (frame.byteLength < headerLength) {
+    throw new Error('Truncated chunk frame header');
+  }
+
+  const transferId = textDecoder.decode(new Uint8Array(frame, 2, idLength));
+  const index = view.getUint32(2 + idLength);
+  const length = view.getUint32(6 + idLength);
+  if (frame.byteLength !== headerLength + length) {
+    throw new Error(`Chunk frame length mismatch for chunk ${index}`);
+  }
+
+  return {
+    transferId,
+    index,
+    data: frame.slice(headerLength)
+  };
+}
+
+// Chunk frames travel unordered on the file channel, where the browser may
+// drop them; metadata, acknowledgements and text go over the reliable control channel
+export const FILE_CHANNEL_LABEL = 'fileTransfer';
+export const CONTROL_CHANNEL_LABEL = 'control';
+export const FILE_CHANNEL_OPTIONS: RTCDataChannelInit = { ordered: false, maxPacketLifeTime: 3000 };
+
+// Further file channels striped alongside the first are numbered from 1
+export function isFileChannel(channel: RTCDataChannel): boolean {
+  return channel.label === FILE_CHANNEL_LABEL || channel.label.startsWith(`${FILE_CHANNEL_LABEL}-`);
 }
 
-export async function reassembleFile(chunks: ArrayBuffer[], fileName: string, fileType: string): Promise<File> {
-  // Filter out any undefined chunks and ensure they're in the right order
-  const validChunks = chunks.filter(chunk => chunk !== undefined);
-  const blob = new Blob(validChunks, { type: fileType });
-  return new File([blob], fileName, { type: fileType });
+export function waitForChannelOpen(channel: RTCDataChannel): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (channel.readyState === 'open') {
+      resolve();
+      return;
+    }
+    if (channel.readyState !== 'connecting') {
+      reject(new Error(`Data channel ${channel.label} is ${channel.readyState}`));
+      return;
+    }
+
+    const cleanup = () => {
+      channel.removeEventListener('open', onOpen);
+      channel.removeEventListener('close', onClose);
+    };
+    const onOpen = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error(`Data channel ${channel.label} closed before opening`));
+    };
+
+    channel.addEventListener('open', onOpen);
+    channel.addEventListener('close', onClose);
+  });
+}
+
+// Resolves once the channel's send buffer has drained to its low threshold
+export function waitForBufferedAmountLow(channel: RTCDataChannel): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (channel.bufferedAmount <= channel.bufferedAmountLowThreshold) {
+      resolve();
+      return;
+    }
+
+    const cleanup = () => {
+      channel.removeEventListener('bufferedamountlow', onLow);
+      channel.removeEventListener('close', onClose);
+    };
+    const onLow = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('Data channel closed while waiting for buffer to drain'));
+    };
+
+    channel.addEventListener('bufferedamountlow', onLow);
+    channel.addEventListener('close', onClose);
+  });
 }
 
 export function formatFileSize(bytes: number): string {
@@ -0,0 +1,122 @@
+// Store-only zip writer, used to hand a received folder to the user as a
+// single download when it cannot be written into a directory. Entries are
+// not compressed, so the archive is assembled from the received blobs
+// without copying them; only the headers are generated here.
+
+export interface ZipEntry {
+  // Path inside the archive, e.g. "photos/2024/img.jpg"
+  path: string;
+  blob: Blob;
+}
+
+// Without ZIP64 records every size and offset has to fit in 32 bits
+export const ZIP_SIZE_LIMIT = 0xffffffff;
+
+const CRC_READ_SIZE = 4 * 1024 * 1024;
+// General purpose flag: file names are UTF-8
+const UTF8_NAMES = 0x0800;
+const ZIP_VERSION = 20;
+
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable() {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+// Read in slices so spooled files are never loaded whole
+async function crc32(blob: Blob) {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += CRC_READ_SIZE) {
+    const bytes = new Uint8Array(await blob.slice(offset, offset + CRC_READ_SIZE).arrayBuffer());
+    for (let i = 0; i < bytes.length; i++) {
+      crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export function zipSize(entries: ZipEntry[]) {
+  const encoder = new TextEncoder();
+  return entries.reduce((total, entry) => {
+    const nameLength = encoder.encode(entry.path).length;
+    return total + 30 + 46 + 2 * nameLength + entry.blob.size;
+  }, 22);
+}
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  if (zipSize(entries) > ZIP_SIZE_LIMIT || entries.length > 0xffff) {
+    throw new Error('Too much data to package as a zip');
+  }
+
+  const encoder = new TextEncoder();
+  const modified = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const directory: ArrayBuffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = await crc32(entry.blob);
+    const size = entry.blob.size;
+
+    const local = new DataView(new ArrayBuffer(30 + name.length));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, UTF8_NAMES, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, modified.time, true);
+    local.setUint16(12, modified.date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    new Uint8Array(local.buffer, 30).set(name);
+    parts.push(local.buffer, entry.blob);
+
+    const header = new DataView(new ArrayBuffer(46 + name.length));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, ZIP_VERSION, true);
+    header.setUint16(6, ZIP_VERSION, true);
+    header.setUint16(8, UTF8_NAMES, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, modified.time, true);
+    header.setUint16(14, modified.date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    new Uint8Array(header.buffer, 46).set(name);
+    directory.push(header.buffer);
+
+    offset += local.byteLength + size;
+  }
+
+  const directorySize = directory.reduce((total, header) => total + header.byteLength, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' });
+}
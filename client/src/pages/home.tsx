@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from "react";
+import { useLocation, useParams } from "wouter";
 import { Share, Laptop, Cog } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,38 +8,72 @@ import DeviceList from "@/components/device-list";
 import TransferItem from "@/components/transfer-item";
 import TransferHistory from "@/components/transfer-history";
 import SettingsPanel from "@/components/settings-panel";
-import IncomingTransfer from "@/components/incoming-transfer";
+import IncomingTransfer, { offerIdOf, type IncomingOffer } from "@/components/incoming-transfer";
 import ThemeToggle from "@/components/theme-toggle";
+import PairingDialog from "@/components/pairing-dialog";
+import RoomPanel from "@/components/room-panel";
+import TextSharePanel from "@/components/text-share-panel";
+import TextSnippet from "@/components/text-snippet";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { useWebRTC } from "@/hooks/use-webrtc";
+import { usePairing } from "@/hooks/use-pairing";
+import { useTextShare } from "@/hooks/use-text-share";
+import { useTrustedDevices } from "@/hooks/use-trusted-devices";
+import { isTrustedOffer } from "@/lib/trusted-devices";
+import { groupTransfers } from "@/lib/transfer-batches";
+import { supportsDeviceIdentity } from "@/lib/device-identity";
 import { useToast } from "@/hooks/use-toast";
-import type { Device, Transfer } from "@shared/schema";
+import { roomCodeSchema, type BatchFile, type Device, type Transfer } from "@shared/schema";
+
+// A fresh id has no secret yet; the server hands one out when it is first registered
+function createDeviceId() {
+  const newId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  localStorage.setItem('deviceId', newId);
+  localStorage.removeItem('deviceSecret');
+  return newId;
+}
 
 export default function Home() {
   const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const params = useParams<{ code?: string }>();
+  // Links may be typed in lower case; anything that isn't a valid code falls back to the network room
+  const parsedRoomCode = roomCodeSchema.safeParse(params.code?.toUpperCase());
+  const roomCode = parsedRoomCode.success ? parsedRoomCode.data : undefined;
   const [deviceName, setDeviceName] = useState(() => {
     const saved = localStorage.getItem('deviceName');
     return saved || `${navigator.platform} Device`;
   });
   
-  const [deviceId] = useState(() => {
-    const saved = localStorage.getItem('deviceId');
-    if (saved) return saved;
-    const newId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    localStorage.setItem('deviceId', newId);
-    return newId;
-  });
+  const [deviceId, setDeviceId] = useState(() => localStorage.getItem('deviceId') || createDeviceId());
 
   const [availableDevices, setAvailableDevices] = useState<Device[]>([]);
   const [activeTransfers, setActiveTransfers] = useState<Transfer[]>([]);
   const [transferHistory, setTransferHistory] = useState<Transfer[]>([]);
-  const [incomingTransfer, setIncomingTransfer] = useState<any>(null);
+  // Offers waiting for an answer, oldest first
+  const [incomingOffers, setIncomingOffers] = useState<IncomingOffer[]>([]);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected'>('connecting');
 
+  const queueOffer = (offer: IncomingOffer) => {
+    setIncomingOffers(prev => prev.some(o => offerIdOf(o) === offerIdOf(offer)) ? prev : [...prev, offer]);
+  };
+
+  // The socket keeps the handler from its first render, so route offers through a ref
+  const transferOfferHandler = useRef<(offer: IncomingOffer) => void>(queueOffer);
+
   const { wsClient, sendMessage } = useWebSocket({
     onDeviceList: setAvailableDevices,
-    onTransferOffer: setIncomingTransfer,
+    onTransferOffer: (offer) => transferOfferHandler.current(offer),
     onConnectionStatusChange: setConnectionStatus,
+    onDeviceSecret: (id, secret) => {
+      if (id === localStorage.getItem('deviceId')) {
+        localStorage.setItem('deviceSecret', secret);
+      }
+    },
+    onDeviceClaimed: () => {
+      console.warn('Device id is registered to another device, starting over with a new one');
+      setDeviceId(createDeviceId());
+    },
     onTransferUpdate: (transfer) => {
       // 传输状态更新：确保状态同步且无重复记录
       setActiveTransfers(prev => {
@@ -52,24 +87,72 @@ export default function Home() {
         // 如果传输记录不存在，添加新记录（通常不应该发生）
         return [...prev, transfer as any];
       });
+    },
+    onTransferExpired: (transferId) => {
+      setIncomingOffers(prev => prev.filter(offer => offerIdOf(offer) !== transferId));
+      setActiveTransfers(prev => prev.map(t =>
+        t.transferId === transferId || t.batchId === transferId ? { ...t, status: 'expired' } : t
+      ));
+      toast({
+        title: "Offer Expired",
+        description: "A transfer offer was not answered in time"
+      });
+    },
+    onTransferStatus: (transferId, status) => {
+      if (status !== 'cancelled') {
+        setTransferStatus(transferId, status);
+        return;
+      }
+      setIncomingOffers(prev => prev.filter(offer => offerIdOf(offer) !== transferId));
+      removeActiveTransfer(transferId);
+      fetchTransfers();
+      toast({
+        title: "Transfer Cancelled",
+        description: "The other device cancelled a transfer"
+      });
     }
   });
 
   const { 
     sendFile, 
+    sendBatch,
     acceptTransfer, 
+    acceptBatch,
+    canDownloadBatchZip,
+    downloadBatchZip,
+    sendOverDataChannel,
     rejectTransfer,
+    pauseTransfer,
+    resumeTransfer,
+    cancelTransfer,
+    retainPeers,
     transfers: webrtcTransfers
   } = useWebRTC({
     deviceId,
     sendMessage,
     onTransferComplete: (transferId) => {
-      setActiveTransfers(prev => prev.filter(t => t.transferId !== transferId));
+      // Files of a batch stay listed until the whole batch is done
+      setActiveTransfers(prev => prev.filter(t => t.transferId !== transferId || t.batchId));
       // Refresh transfer history
       fetchTransfers();
     }
   });
 
+  const pairing = usePairing({ deviceName, sendMessage });
+  const textShare = useTextShare({
+    deviceId,
+    sendMessage,
+    sendOverDataChannel,
+    onSendFailed: (reason) => {
+      toast({
+        title: "Text Not Delivered",
+        description: reason,
+        variant: "destructive"
+      });
+    }
+  });
+  const trustedDevices = useTrustedDevices();
+
   const fetchTransfers = async () => {
     try {
       const response = await fetch(`/api/transfers/${deviceId}`);
@@ -96,22 +179,32 @@ export default function Home() {
     }
   };
 
+  const registerDevice = () => {
+    sendMessage({
+      type: 'device-register',
+      device: {
+        deviceId,
+        name: deviceName,
+        type: getDeviceType(),
+        status: 'available'
+      },
+      roomCode,
+      secret: localStorage.getItem('deviceSecret') ?? undefined
+    });
+  };
+
   useEffect(() => {
     if (wsClient && connectionStatus === 'connected') {
-      // Register device
-      sendMessage({
-        type: 'device-register',
-        device: {
-          deviceId,
-          name: deviceName,
-          type: getDeviceType(),
-          status: 'available'
-        }
-      });
-
+      // Register device (again whenever the room changes)
+      registerDevice();
       fetchTransfers();
     }
-  }, [wsClient, connectionStatus, deviceId, deviceName]);
+  }, [wsClient, connectionStatus, deviceId, deviceName, roomCode]);
+
+  // Warm peer connections are only kept to devices that are still around
+  useEffect(() => {
+    retainPeers(availableDevices.map(device => device.deviceId));
+  }, [availableDevices, retainPeers]);
 
   // Add polling to ensure transfer status updates are received
   useEffect(() => {
@@ -142,51 +235,14 @@ export default function Home() {
     transferLock.current = true;
     
     try {
-      // Check if this is a folder transfer (files have webkitRelativePath)
-      const hasFolder = files.some(file => file.webkitRelativePath);
-      
-      if (hasFolder) {
-        console.log(`Sending folder with ${files.length} files to device: ${targetDevice.name}`);
-        
-        // Group files by folder structure and send them
-        for (const file of files) {
-          const relativePath = file.webkitRelativePath || file.name;
-          console.log(`Sending file: ${relativePath}`);
-          
-          // Create transfer directly through server API for folder files
-          const transferId = `transfer_${Date.now()}_${Math.random().toString(36).substring(2)}`;
-          
-          const response = await fetch(`/api/transfer/${transferId}/upload`, {
-            method: 'POST',
-            headers: {
-              'X-Filename': file.name,
-              'X-Relative-Path': relativePath,
-              'Content-Type': file.type || 'application/octet-stream',
-              'X-Sender-Id': deviceId,
-              'X-Receiver-Id': targetDevice.deviceId
-            },
-            body: file
-          });
-          
-          if (!response.ok) {
-            throw new Error(`Upload failed for ${relativePath}`);
-          }
-        }
-        
-        // Notify receiving device about folder transfer
-        sendMessage({
-          type: 'transfer-complete',
-          transferId: `folder_${Date.now()}`
-        });
-        
-        toast({
-          title: "Folder Sent",
-          description: `Folder with ${files.length} files sent to ${targetDevice.name}`
-        });
+      // Several files or a folder go out as one batch offer, so the
+      // receiver gets a single prompt and can recreate the folder
+      if (files.length > 1 || files.some(file => file.webkitRelativePath)) {
+        console.log(`Sending ${files.length} files to device: ${targetDevice.name}`);
+        await sendBatch(files, targetDevice.deviceId);
       } else {
-        // Single file transfers
         for (const file of files) {
-          console.log(`Sending file: ${file.name} to device: ${targetDevice.name}`);
+          console.log(`Sending file: ${file.webkitRelativePath || file.name} to device: ${targetDevice.name}`);
           await sendFile(file, targetDevice.deviceId);
         }
       }
@@ -218,86 +274,217 @@ export default function Home() {
     }
   };
 
-  const handleAcceptTransfer = async () => {
-    if (incomingTransfer) {
-      // Send acceptance message to sender
-      sendMessage({
-        type: 'transfer-answer',
-        transferId: incomingTransfer.transferId,
-        accepted: true
+  const handleDownloadZip = async (files: Transfer[]) => {
+    try {
+      await downloadBatchZip(files);
+    } catch (error) {
+      toast({
+        title: "Zip Download Failed",
+        description: error instanceof Error ? error.message : "Could not download the files as a zip",
+        variant: "destructive"
       });
-      
-      // Create a transfer record for the receiver
-      const receiverTransfer = {
-        transferId: incomingTransfer.transferId,
-        fileName: incomingTransfer.fileName,
-        fileSize: incomingTransfer.fileSize,
-        fileType: incomingTransfer.fileType,
-        senderId: incomingTransfer.senderId,
-        receiverId: deviceId,
-        status: 'accepted',
-        progress: 0
-      };
-      
-      // 防重复添加：确保相同transferId的传输不会重复出现
-      setActiveTransfers(prev => {
-        const exists = prev.some(t => t.transferId === receiverTransfer.transferId);
-        if (exists) {
-          return prev.map(t => 
-            t.transferId === receiverTransfer.transferId 
-              ? { ...t, ...receiverTransfer } 
-              : t
-          );
-        }
-        return [...prev, receiverTransfer as any];
+    }
+  };
+
+  const handleSendText = (text: string, targetDevice: Device) => {
+    textShare.sendText(text, targetDevice.deviceId);
+    toast({
+      title: "Text Sent",
+      description: `Sent to ${targetDevice.name}`
+    });
+  };
+
+  const handleCopyText = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied", description: "Text copied to clipboard" });
+    } catch (error) {
+      toast({
+        title: "Copy Failed",
+        description: "Clipboard access is not available here",
+        variant: "destructive"
       });
-      setIncomingTransfer(null);
-      
-      // Schedule download check for when transfer completes
-      setTimeout(async () => {
-        try {
-          const response = await fetch(`/api/transfers/${deviceId}`);
-          const data = await response.json();
-          const allTransfers = [...data.active, ...data.history];
-          const completedTransfer = allTransfers.find((t: any) => 
-            t.transferId === incomingTransfer.transferId && t.status === 'completed'
-          );
-          
-          if (completedTransfer) {
-            // Download the file immediately
-            const downloadUrl = `/api/transfer/${incomingTransfer.transferId}/download`;
-            const link = document.createElement('a');
-            link.href = downloadUrl;
-            link.download = incomingTransfer.fileName;
-            link.style.display = 'none';
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            console.log(`Downloading accepted transfer: ${incomingTransfer.fileName}`);
-          }
-        } catch (error) {
-          console.error('Failed to check transfer status:', error);
-        }
-      }, 6000); // Check after 6 seconds to allow transfer to complete
     }
   };
 
-  const handleRejectTransfer = () => {
-    if (incomingTransfer) {
-      // Send rejection message to sender
-      sendMessage({
-        type: 'transfer-answer',
-        transferId: incomingTransfer.transferId,
-        accepted: false
+  const handleCopyRoomLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link Copied",
+        description: "Open it on another device to join this room"
+      });
+    } catch (error) {
+      // Clipboard access needs a secure context; show the link instead
+      toast({
+        title: "Room Link",
+        description: url
       });
-      
-      setIncomingTransfer(null);
-      console.log(`Rejected transfer: ${incomingTransfer.fileName}`);
     }
   };
 
-  // Use active transfers from server
-  const allActiveTransfers = activeTransfers || [];
+  // Offers arrive as validated transfer-offer or batch-offer messages, so the
+  // fields of their kind are always set
+  const fileOfferOf = (offer: IncomingOffer) => ({
+    ...offer,
+    transferId: offer.transferId ?? '',
+    fileName: offer.fileName ?? '',
+    fileSize: offer.fileSize ?? 0,
+    fileType: offer.fileType ?? '',
+    receiverId: deviceId
+  });
+
+  const batchOfferOf = (offer: IncomingOffer) => ({
+    ...offer,
+    batchId: offer.batchId ?? '',
+    files: offer.files ?? [],
+    totalSize: offer.totalSize ?? 0,
+    receiverId: deviceId
+  });
+
+  const acceptOffer = async (offer: IncomingOffer) => {
+    // Choose where to save (for large files or a folder) and send acceptance to sender
+    if (offer.files) {
+      await acceptBatch(batchOfferOf(offer));
+    } else {
+      await acceptTransfer(fileOfferOf(offer));
+    }
+    
+    // Create a transfer record for the receiver, one per file of a batch
+    const offeredFiles: BatchFile[] = offer.files ?? [fileOfferOf(offer)];
+    const receiverTransfers = offeredFiles.map(file => ({
+      transferId: file.transferId,
+      fileName: file.fileName,
+      fileSize: file.fileSize,
+      fileType: file.fileType,
+      senderId: offer.senderId,
+      receiverId: deviceId,
+      status: 'accepted',
+      progress: 0,
+      bytesTransferred: 0,
+      batchId: offer.batchId ?? null,
+      relativePath: file.relativePath ?? null
+    }));
+    
+    // 防重复添加：确保相同transferId的传输不会重复出现
+    setActiveTransfers(prev => {
+      const added = receiverTransfers.filter(r => !prev.some(t => t.transferId === r.transferId));
+      const updated = prev.map(t => {
+        const receiverTransfer = receiverTransfers.find(r => r.transferId === t.transferId);
+        return receiverTransfer ? { ...t, ...receiverTransfer } : t;
+      });
+      // Placeholders for what the server fills in; the next fetch replaces them
+      return [...updated, ...added.map((transfer): Transfer => ({
+        id: 0,
+        durationMs: null,
+        averageSpeed: null,
+        transport: null,
+        createdAt: new Date(),
+        completedAt: null,
+        ...transfer
+      }))];
+    });
+  };
+
+  // Offers signed by a paired device skip the prompt when auto accept is on
+  transferOfferHandler.current = async (offer: IncomingOffer) => {
+    const autoAccept = JSON.parse(localStorage.getItem('autoAccept') || 'false');
+    if (autoAccept && supportsDeviceIdentity() && await isTrustedOffer(offer.files ? batchOfferOf(offer) : fileOfferOf(offer))) {
+      const description = offer.files ? `${offer.files.length} files` : offer.fileName;
+      console.log(`Auto-accepting ${description} from trusted device ${offer.senderId}`);
+      await acceptOffer(offer);
+      toast({
+        title: offer.files ? "Receiving Files" : "Receiving File",
+        description: `Accepted ${description} from a trusted device`
+      });
+      return;
+    }
+    queueOffer(offer);
+  };
+
+  const dequeueOffer = (offer: IncomingOffer) => {
+    setIncomingOffers(prev => prev.filter(o => offerIdOf(o) !== offerIdOf(offer)));
+  };
+
+  const handleAcceptTransfer = async (offer: IncomingOffer) => {
+    dequeueOffer(offer);
+    await acceptOffer(offer);
+  };
+
+  const handleRejectTransfer = (offer: IncomingOffer) => {
+    // Send rejection message to sender; declining a batch declines all of its files
+    sendMessage({
+      type: 'transfer-answer',
+      transferId: offerIdOf(offer),
+      accepted: false
+    });
+
+    dequeueOffer(offer);
+    console.log(`Rejected transfer: ${offer.fileName ?? offer.batchId}`);
+  };
+
+  // Only the first offer can ask where to save; later ones use the defaults
+  const handleAcceptAllFrom = async (senderId: string) => {
+    const offers = incomingOffers.filter(offer => offer.senderId === senderId);
+    setIncomingOffers(prev => prev.filter(offer => offer.senderId !== senderId));
+    for (const offer of offers) {
+      await acceptOffer(offer);
+    }
+  };
+
+  // Pausing or resuming a batch (by batchId) covers its unfinished files
+  const setTransferStatus = (transferId: string, status: 'paused' | 'transferring') => {
+    setActiveTransfers(prev => prev.map(t =>
+      (t.transferId === transferId || t.batchId === transferId) &&
+      (status === 'paused' ? t.status !== 'completed' : t.status === 'paused')
+        ? { ...t, status }
+        : t
+    ));
+  };
+
+  const removeActiveTransfer = (transferId: string) => {
+    setActiveTransfers(prev => prev.filter(t => t.transferId !== transferId && t.batchId !== transferId));
+  };
+
+  const handlePauseTransfer = (transferId: string) => {
+    pauseTransfer(transferId);
+    setTransferStatus(transferId, 'paused');
+  };
+
+  const handleResumeTransfer = (transferId: string) => {
+    resumeTransfer(transferId);
+    setTransferStatus(transferId, 'transferring');
+  };
+
+  const handleCancelTransfer = async (transferId: string) => {
+    await cancelTransfer(transferId);
+    removeActiveTransfer(transferId);
+  };
+
+  // The server's rows lag up to a poll behind; where this side is moving the
+  // bytes itself its own count is fresher
+  const withLocalProgress = (transfer: Transfer): Transfer => {
+    const local = webrtcTransfers[transfer.transferId];
+    return local?.bytesTransferred !== undefined
+      ? { ...transfer, progress: local.progress, bytesTransferred: local.bytesTransferred }
+      : transfer;
+  };
+
+  // Files of a batch go one at a time, so the batch moves as fast as its current file
+  const liveSpeed = (transfer: Transfer, files?: Transfer[]) =>
+    (files ?? [transfer]).reduce((total, file) => total + (webrtcTransfers[file.transferId]?.speed ?? 0), 0);
+
+  // Only a paired peer's signature shows the relay key came from them
+  const relayEncryption = (transfer: Transfer, files?: Transfer[]) => {
+    const relayed = (files ?? [transfer])
+      .map(file => webrtcTransfers[file.transferId])
+      .filter(local => local?.viaRelay);
+    if (relayed.length === 0) return undefined;
+    return relayed.every(local => local.relayKeyVerified) ? 'verified' : 'unverified';
+  };
+
+  // Use active transfers from server, with the files of a batch shown together
+  const allActiveTransfers = groupTransfers((activeTransfers || []).map(withLocalProgress));
 
   return (
     <div className="min-h-screen bg-background pixel-font">
@@ -350,6 +537,21 @@ export default function Home() {
               availableDevices={availableDevices}
             />
 
+            <TextSharePanel
+              availableDevices={availableDevices}
+              onSend={handleSendText}
+            />
+
+            {textShare.received.map(snippet => (
+              <TextSnippet
+                key={snippet.shareId}
+                snippet={snippet}
+                senderName={availableDevices.find(d => d.deviceId === snippet.senderId)?.name}
+                onCopy={handleCopyText}
+                onDismiss={() => textShare.dismissText(snippet.shareId)}
+              />
+            ))}
+
             {/* 像素风格活跃传输 */}
             {allActiveTransfers.length > 0 && (
               <div className="bg-card pixel-border border-primary pixel-shadow p-6">
@@ -357,24 +559,40 @@ export default function Home() {
                   ACTIVE TRANSFERS
                 </h2>
                 <div className="space-y-6">
-                  {allActiveTransfers.map((transfer) => (
+                  {allActiveTransfers.map(({ transfer, files }) => (
                     <TransferItem 
                       key={transfer.transferId} 
                       transfer={transfer}
+                      files={files}
+                      speed={liveSpeed(transfer, files)}
+                      relayEncryption={relayEncryption(transfer, files)}
                       currentDeviceId={deviceId}
                       availableDevices={availableDevices}
+                      onPause={() => handlePauseTransfer(transfer.transferId)}
+                      onResume={() => handleResumeTransfer(transfer.transferId)}
+                      onCancel={() => handleCancelTransfer(transfer.transferId)}
                     />
                   ))}
                 </div>
               </div>
             )}
 
-            {/* Incoming Transfer Request */}
-            {incomingTransfer && (
+            <PairingDialog
+              session={pairing.session}
+              onAccept={pairing.acceptPairing}
+              onConfirm={pairing.confirmPairing}
+              onCancel={pairing.cancelPairing}
+              onDismiss={pairing.dismissPairing}
+            />
+
+            {/* Incoming Transfer Requests */}
+            {incomingOffers.length > 0 && (
               <IncomingTransfer
-                transfer={incomingTransfer}
+                offers={incomingOffers}
+                availableDevices={availableDevices}
                 onAccept={handleAcceptTransfer}
                 onReject={handleRejectTransfer}
+                onAcceptAllFrom={handleAcceptAllFrom}
               />
             )}
           </div>
@@ -383,25 +601,28 @@ export default function Home() {
           <div className="space-y-6">
             <DeviceList 
               devices={availableDevices}
+              trustedDeviceIds={new Set(trustedDevices.map(d => d.deviceId))}
+              onPair={supportsDeviceIdentity() ? pairing.startPairing : undefined}
               onRefresh={() => {
                 if (wsClient && connectionStatus === 'connected') {
-                  sendMessage({
-                    type: 'device-register',
-                    device: {
-                      deviceId,
-                      name: deviceName,
-                      type: getDeviceType(),
-                      status: 'available'
-                    }
-                  });
+                  registerDevice();
                 }
               }}
             />
 
+            <RoomPanel
+              roomCode={roomCode}
+              onJoin={(code) => navigate(`/r/${code}`)}
+              onLeave={() => navigate('/')}
+              onCopyLink={handleCopyRoomLink}
+            />
+
             <TransferHistory 
               transfers={transferHistory}
               currentDeviceId={deviceId}
               availableDevices={availableDevices}
+              canDownloadZip={canDownloadBatchZip}
+              onDownloadZip={handleDownloadZip}
             />
 
             <SettingsPanel
@@ -434,7 +655,7 @@ export default function Home() {
                 </div>
                 <h3 className="text-lg font-semibold text-foreground">End-to-End Encryption</h3>
                 <p className="text-sm text-muted-foreground">
-                  All file transfers are encrypted end-to-end via WebRTC, ensuring absolute security during data transmission
+                  Direct transfers are encrypted by WebRTC, and files that fall back to the relay are encrypted in your browser first; without a secure connection to encrypt with, files are never relayed
                 </p>
               </div>
 
@@ -444,9 +665,9 @@ export default function Home() {
                     <div className="absolute inset-1 bg-blue-600 rounded-full"></div>
                   </div>
                 </div>
-                <h3 className="text-lg font-semibold text-foreground">No Server Storage</h3>
+                <h3 className="text-lg font-semibold text-foreground">No Plaintext on Servers</h3>
                 <p className="text-sm text-muted-foreground">
-                  Files are transferred directly between devices without any server storage, completely protecting your privacy
+                  Files travel directly between devices whenever possible; relayed files are held only as ciphertext and deleted shortly after delivery
                 </p>
               </div>
 
@@ -0,0 +1,24 @@
+CREATE TABLE "devices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" text NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"status" text DEFAULT 'available' NOT NULL,
+	"last_seen" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "devices_device_id_unique" UNIQUE("device_id")
+);
+--> statement-breakpoint
+CREATE TABLE "transfers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"transfer_id" text NOT NULL,
+	"file_name" text NOT NULL,
+	"file_size" bigint NOT NULL,
+	"file_type" text NOT NULL,
+	"sender_id" text NOT NULL,
+	"receiver_id" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	CONSTRAINT "transfers_transfer_id_unique" UNIQUE("transfer_id")
+);
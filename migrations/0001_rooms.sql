@@ -0,0 +1 @@
+ALTER TABLE "devices" ADD COLUMN "room" text DEFAULT '' NOT NULL;
\ No newline at end of file
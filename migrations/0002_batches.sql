@@ -0,0 +1 @@
+ALTER TABLE "transfers" ADD COLUMN "batch_id" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "transfers" ADD COLUMN "relative_path" text;
\ No newline at end of file
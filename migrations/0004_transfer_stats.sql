@@ -0,0 +1,4 @@
+ALTER TABLE "transfers" ADD COLUMN "bytes_transferred" bigint DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "transfers" ADD COLUMN "duration_ms" integer;--> statement-breakpoint
+ALTER TABLE "transfers" ADD COLUMN "average_speed" bigint;--> statement-breakpoint
+ALTER TABLE "transfers" ADD COLUMN "transport" text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE "device_secrets" (
+	"device_id" text PRIMARY KEY NOT NULL,
+	"secret_hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
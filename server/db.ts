@@ -0,0 +1,26 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any drizzle Postgres database built on our schema (node-postgres in
+// production, pglite or a throwaway pool in tests)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export interface DatabaseHandle {
+  db: Database;
+  // Apply the SQL migrations generated by `npm run db:generate`
+  migrate(): Promise<void>;
+}
+
+export function createDatabase(connectionString: string): DatabaseHandle & { pool: pg.Pool } {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+
+  return {
+    db,
+    pool,
+    migrate: () => migrate(db, { migrationsFolder: "./migrations" }),
+  };
+}
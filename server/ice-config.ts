@@ -0,0 +1,69 @@
+import { createHmac } from "crypto";
+import { z } from "zod";
+import { iceServerSchema, type IceConfig, type IceServer } from "@shared/schema";
+
+// ICE servers for peer connections, served to clients by GET /api/ice-config.
+//
+// ICE_SERVERS   JSON array of { urls, username?, credential? } replacing the
+//               default public STUN servers; "[]" leaves only host candidates,
+//               for offline or LAN-only deployments
+// TURN_URLS     comma-separated turn:/turns: URLs
+// TURN_SECRET   shared secret of the TURN server (coturn `static-auth-secret`)
+// TURN_TTL_SECONDS  lifetime of issued TURN credentials, one day by default
+//
+// TURN credentials follow the coturn REST API scheme: the username is
+// "<expiry unix time>:<user>" and the password is the base64 HMAC-SHA1 of
+// the username under the shared secret, so the TURN server can check them
+// without talking to us.
+
+const DEFAULT_ICE_SERVERS: IceServer[] = [
+  { urls: "stun:stun.l.google.com:19302" },
+  { urls: "stun:stun1.l.google.com:19302" },
+  { urls: "stun:stun2.l.google.com:19302" },
+  { urls: "stun:stun3.l.google.com:19302" },
+  { urls: "stun:stun4.l.google.com:19302" },
+  { urls: "stun:stun.cloudflare.com:3478" },
+  { urls: "stun:stun.nextcloud.com:443" },
+];
+
+const turnTtlSeconds = Number(process.env.TURN_TTL_SECONDS) > 0 ? Number(process.env.TURN_TTL_SECONDS) : 24 * 60 * 60;
+
+// A broken setting should stop the server rather than quietly break every connection
+function parseIceServers(value: string | undefined): IceServer[] {
+  if (value === undefined) return DEFAULT_ICE_SERVERS;
+  try {
+    return z.array(iceServerSchema).parse(JSON.parse(value));
+  } catch (error) {
+    throw new Error(`ICE_SERVERS is not a valid list of ICE servers: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+const staticServers = parseIceServers(process.env.ICE_SERVERS);
+const turnUrls = (process.env.TURN_URLS ?? "").split(",").map(url => url.trim()).filter(Boolean);
+const turnSecret = process.env.TURN_SECRET;
+
+if (turnUrls.length > 0 && !turnSecret) {
+  console.warn("TURN_URLS is set without TURN_SECRET; TURN servers will not be offered");
+}
+
+function turnCredential(username: string, secret: string): string {
+  return createHmac("sha1", secret).update(username).digest("base64");
+}
+
+// `user` only labels the credential in the TURN server's logs
+export function getIceConfig(user: string, now = Date.now()): IceConfig {
+  if (turnUrls.length === 0 || !turnSecret) {
+    return { iceServers: staticServers, expiresAt: null };
+  }
+
+  const expiry = Math.floor(now / 1000) + turnTtlSeconds;
+  // Kept to plain characters so the label can't disturb the username format
+  const username = `${expiry}:${user.replace(/[^\w-]/g, "_").slice(0, 64)}`;
+  return {
+    iceServers: [
+      ...staticServers,
+      { urls: turnUrls, username, credential: turnCredential(username, turnSecret) },
+    ],
+    expiresAt: expiry * 1000,
+  };
+}
@@ -1,5 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { initStorage } from "./storage";
+import { initRelayStore } from "./relay-store";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +39,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initStorage();
+  log(process.env.DATABASE_URL ? "using Postgres storage" : "using in-memory storage");
+  await initRelayStore();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,239 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import {
+  MemoryRelayStore,
+  FileSystemRelayStore,
+  RelayStoreError,
+  parseRange,
+  type IRelayStore,
+  type NewRelayBlob,
+  type RelayStoreLimits,
+} from "./relay-store";
+
+const limits: RelayStoreLimits = { ttlMs: 60_000, maxTotalBytes: 12, maxBytesPerDevice: 10 };
+
+function newBlob(transferId: string, length: number, overrides: Partial<NewRelayBlob> = {}): NewRelayBlob {
+  return {
+    transferId,
+    fileName: `${transferId}.bin`,
+    fileType: "application/octet-stream",
+    relativePath: "",
+    encryption: null,
+    ownerId: "alice",
+    length,
+    expectedSha256: null,
+    ...overrides,
+  };
+}
+
+function sha256(content: string) {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+async function upload(store: IRelayStore, transferId: string, content: string, overrides: Partial<NewRelayBlob> = {}) {
+  await store.create(newBlob(transferId, content.length, overrides));
+  await store.append(transferId, 0, Readable.from([Buffer.from(content)]));
+  return store.complete(transferId);
+}
+
+async function readAll(stream: Readable) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks).toString();
+}
+
+async function assertRefused(promise: Promise<unknown>, status: number) {
+  await assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof RelayStoreError);
+    assert.equal(error.status, status);
+    return true;
+  });
+}
+
+// Both stores share the bookkeeping, so the same expectations hold for each
+function relayStoreSuite(name: string, open: () => Promise<{ store: IRelayStore; close?: () => Promise<void> }>) {
+  describe(name, () => {
+    let store: IRelayStore;
+    let close: (() => Promise<void>) | undefined;
+
+    before(async () => {
+      ({ store, close } = await open());
+    });
+
+    after(async () => {
+      await close?.();
+    });
+
+    it("takes an upload in pieces and reads back ranges", async () => {
+      await store.create(newBlob("t1", 10));
+      assert.equal(await store.append("t1", 0, Readable.from([Buffer.from("hello")])), 5);
+      await assertRefused(store.append("t1", 3, Readable.from([Buffer.from("lo")])), 409);
+      assert.equal(await store.append("t1", 5, Readable.from([Buffer.from("world")])), 10);
+
+      const blob = await store.complete("t1");
+      assert.equal(blob.sha256, sha256("helloworld"));
+      assert.equal(await readAll(await store.createReadStream("t1")), "helloworld");
+      assert.equal(await readAll(await store.createReadStream("t1", { start: 3, end: 6 })), "lowo");
+      await store.delete("t1");
+    });
+
+    it("refuses uploads past the device's quota or the store's", async () => {
+      await assertRefused(store.create(newBlob("too-big", 11)), 507);
+
+      await store.create(newBlob("a1", 8));
+      await assertRefused(store.create(newBlob("a2", 4)), 507);
+      // Another device still has room of its own, but not past the total
+      await assertRefused(store.create(newBlob("b1", 5, { ownerId: "bob" })), 507);
+      await store.create(newBlob("b1", 4, { ownerId: "bob" }));
+
+      await store.delete("a1");
+      await store.delete("b1");
+    });
+
+    it("frees quota when an unfinished upload expires", async () => {
+      await store.create(newBlob("a1", 8));
+      assert.equal(await store.sweep(new Date(Date.now() + limits.ttlMs - 1000)), 0);
+      assert.equal(await store.sweep(new Date(Date.now() + limits.ttlMs)), 1);
+      assert.equal(await store.get("a1"), undefined);
+
+      await store.create(newBlob("a2", 8));
+      await store.delete("a2");
+    });
+
+    it("keeps a completed file until it is delivered, then frees its quota", async () => {
+      const blob = await upload(store, "a1", "12345678");
+      assert.ok(blob.completed);
+      await assertRefused(store.create(newBlob("a2", 8)), 507);
+
+      // The download route shortens the TTL once the file went out
+      await store.setExpiry("a1", new Date(Date.now() - 1));
+      assert.equal(await store.sweep(), 1);
+
+      await store.create(newBlob("a2", 8));
+      await store.delete("a2");
+    });
+
+    it("sweeps only expired files", async () => {
+      await upload(store, "old", "old");
+      await upload(store, "new", "new");
+      await store.setExpiry("old", new Date(Date.now() - 1));
+
+      assert.equal(await store.sweep(), 1);
+      assert.equal(await store.get("old"), undefined);
+      assert.equal(await readAll(await store.createReadStream("new")), "new");
+      await store.delete("new");
+    });
+
+    it("checks the content's SHA-256 on complete", async () => {
+      await store.create(newBlob("t1", 5));
+      await store.append("t1", 0, Readable.from([Buffer.from("hel")]));
+      await assertRefused(store.complete("t1"), 409);
+      await store.append("t1", 3, Readable.from([Buffer.from("lo")]));
+      assert.equal((await store.complete("t1", sha256("hello").toUpperCase())).sha256, sha256("hello"));
+      await store.delete("t1");
+
+      // A mismatch discards the blob and its quota, so the upload starts over
+      await store.create(newBlob("t2", 8, { expectedSha256: sha256("12345678") }));
+      await store.append("t2", 0, Readable.from([Buffer.from("87654321")]));
+      await assertRefused(store.complete("t2"), 422);
+      assert.equal(await store.get("t2"), undefined);
+      await upload(store, "t2", "12345678", { expectedSha256: sha256("12345678") });
+      await store.delete("t2");
+    });
+
+    it("drops bytes past the declared length", async () => {
+      await store.create(newBlob("t1", 4));
+      await assertRefused(store.append("t1", 0, Readable.from([Buffer.from("ab"), Buffer.from("cdef")])), 413);
+      assert.equal((await store.get("t1"))?.size, 2);
+      await store.delete("t1");
+    });
+  });
+}
+
+relayStoreSuite("MemoryRelayStore", async () => ({ store: new MemoryRelayStore(limits) }));
+
+relayStoreSuite("FileSystemRelayStore", async () => {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "relay-store-test-"));
+  const store = new FileSystemRelayStore(dir, limits);
+  await store.init();
+  return { store, close: () => fs.promises.rm(dir, { recursive: true, force: true }) };
+});
+
+describe("FileSystemRelayStore across restarts", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "relay-store-test-"));
+  });
+
+  after(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it("picks up finished and unfinished uploads from its spool", async () => {
+    const first = new FileSystemRelayStore(dir, limits);
+    await first.init();
+    await upload(first, "done", "hello", { encryption: "aes-256-gcm" });
+    await first.create(newBlob("partial", 5));
+    await first.append("partial", 0, Readable.from([Buffer.from("wor")]));
+
+    const second = new FileSystemRelayStore(dir, limits);
+    await second.init();
+    const done = await second.get("done");
+    assert.equal(done?.completed, true);
+    assert.equal(done?.encryption, "aes-256-gcm");
+    assert.equal(done?.expiresAt.getTime(), (await first.get("done"))?.expiresAt.getTime());
+    assert.equal(await readAll(await second.createReadStream("done")), "hello");
+
+    // The upload carries on where the data file ends
+    assert.equal((await second.get("partial"))?.size, 3);
+    await second.append("partial", 3, Readable.from([Buffer.from("ld")]));
+    assert.equal((await second.complete("partial")).sha256, sha256("world"));
+
+    // Quotas count what was picked up
+    await assertRefused(second.create(newBlob("more", 1)), 507);
+  });
+
+  it("keeps client ids out of file names", async () => {
+    const store = new FileSystemRelayStore(dir, limits);
+    await store.init();
+    await store.create(newBlob("../escape", 0, { ownerId: "carol" }));
+    const entries = await fs.promises.readdir(dir);
+    assert.ok(entries.every(entry => /^[0-9a-f]{64}\.(bin|json)$/.test(entry)));
+  });
+});
+
+describe("parseRange", () => {
+  it("serves the whole file without a single bytes range", () => {
+    assert.equal(parseRange(undefined, 100), undefined);
+    assert.equal(parseRange("bytes=-", 100), undefined);
+    assert.equal(parseRange("items=0-9", 100), undefined);
+    // Multiple ranges are not supported, so the whole file goes out instead
+    assert.equal(parseRange("bytes=0-9,20-29", 100), undefined);
+  });
+
+  it("reads start and end offsets", () => {
+    assert.deepEqual(parseRange("bytes=10-19", 100), { start: 10, end: 19 });
+    assert.deepEqual(parseRange(" bytes=90- ", 100), { start: 90, end: 99 });
+    // An end past the file is cut to its last byte
+    assert.deepEqual(parseRange("bytes=90-500", 100), { start: 90, end: 99 });
+  });
+
+  it("reads suffix ranges", () => {
+    assert.deepEqual(parseRange("bytes=-10", 100), { start: 90, end: 99 });
+    assert.deepEqual(parseRange("bytes=-500", 100), { start: 0, end: 99 });
+    assert.equal(parseRange("bytes=-0", 100), null);
+  });
+
+  it("refuses ranges that start past the end of the file", () => {
+    assert.equal(parseRange("bytes=100-", 100), null);
+    assert.equal(parseRange("bytes=150-200", 100), null);
+    assert.equal(parseRange("bytes=20-10", 100), null);
+    assert.equal(parseRange("bytes=0-", 0), null);
+  });
+});
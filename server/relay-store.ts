@@ -0,0 +1,391 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+export interface RelayBlob {
+  transferId: string;
+  fileName: string;
+  fileType: string;
+  relativePath: string;
+  // Client-side encryption scheme, if any. The relay never sees the key.
+  encryption: string | null;
+  // Device charged for the blob against its quota (normally the sender)
+  ownerId: string;
+  // Declared total size and bytes received so far
+  length: number;
+  size: number;
+  completed: boolean;
+  // Hex SHA-256 the sender declared, checked when the upload completes
+  expectedSha256: string | null;
+  // Hex SHA-256 of the content, known once the upload is complete
+  sha256: string | null;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export type NewRelayBlob = Omit<RelayBlob, "size" | "completed" | "sha256" | "createdAt" | "expiresAt">;
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+// Carries the HTTP status the relay routes should answer with
+export class RelayStoreError extends Error {
+  constructor(message: string, public status: number, public offset?: number) {
+    super(message);
+    this.name = "RelayStoreError";
+  }
+}
+
+export interface IRelayStore {
+  create(blob: NewRelayBlob): Promise<RelayBlob>;
+  get(transferId: string): Promise<RelayBlob | undefined>;
+  // Append a stream at `offset`; bytes that arrive before a dropped connection are kept
+  append(transferId: string, offset: number, source: Readable): Promise<number>;
+  // Verifies the content against `expectedSha256` (or the one declared at
+  // creation); a mismatching blob is discarded so the upload starts over
+  complete(transferId: string, expectedSha256?: string): Promise<RelayBlob>;
+  createReadStream(transferId: string, range?: ByteRange): Promise<Readable>;
+  setExpiry(transferId: string, expiresAt: Date): Promise<void>;
+  delete(transferId: string): Promise<void>;
+  // Remove expired blobs, returning how many were dropped
+  sweep(now?: Date): Promise<number>;
+}
+
+export interface RelayStoreLimits {
+  ttlMs: number;
+  maxTotalBytes: number;
+  maxBytesPerDevice: number;
+}
+
+// Shared bookkeeping: metadata, quotas and expiry. Subclasses only move bytes.
+abstract class BaseRelayStore implements IRelayStore {
+  protected blobs = new Map<string, RelayBlob>();
+  private writing = new Set<string>();
+
+  constructor(protected limits: RelayStoreLimits) {}
+
+  protected abstract allocate(blob: RelayBlob): Promise<void>;
+  // `limit` must sit between source and storage so overflowing bytes are dropped
+  protected abstract write(blob: RelayBlob, offset: number, source: Readable, limit: Transform): Promise<number>;
+  protected abstract read(blob: RelayBlob, range: ByteRange): Readable;
+  protected abstract remove(blob: RelayBlob): Promise<void>;
+  protected async persist(_blob: RelayBlob): Promise<void> {}
+
+  // Quotas are charged by declared length so a session can never outgrow them
+  private usage(ownerId?: string): number {
+    let total = 0;
+    this.blobs.forEach(blob => {
+      if (!ownerId || blob.ownerId === ownerId) total += blob.length;
+    });
+    return total;
+  }
+
+  async create(newBlob: NewRelayBlob): Promise<RelayBlob> {
+    if (newBlob.length > this.limits.maxBytesPerDevice ||
+        this.usage(newBlob.ownerId) + newBlob.length > this.limits.maxBytesPerDevice) {
+      throw new RelayStoreError("Relay quota for this device exceeded", 507);
+    }
+    if (this.usage() + newBlob.length > this.limits.maxTotalBytes) {
+      throw new RelayStoreError("Relay storage is full", 507);
+    }
+
+    const now = new Date();
+    const blob: RelayBlob = {
+      ...newBlob,
+      size: 0,
+      completed: false,
+      sha256: null,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.limits.ttlMs),
+    };
+
+    await this.allocate(blob);
+    this.blobs.set(blob.transferId, blob);
+    await this.persist(blob);
+    return blob;
+  }
+
+  async get(transferId: string): Promise<RelayBlob | undefined> {
+    return this.blobs.get(transferId);
+  }
+
+  async append(transferId: string, offset: number, source: Readable): Promise<number> {
+    const blob = this.blobs.get(transferId);
+    if (!blob) throw new RelayStoreError("Upload session not found", 404);
+    if (blob.completed) throw new RelayStoreError("Upload already completed", 409, blob.size);
+    if (offset !== blob.size || this.writing.has(transferId)) {
+      throw new RelayStoreError("Upload-Offset does not match", 409, blob.size);
+    }
+
+    this.writing.add(transferId);
+    try {
+      const limit = this.limitTo(blob, offset);
+      blob.size = await this.write(blob, offset, source, limit.transform);
+      if (limit.overflowed()) {
+        throw new RelayStoreError("Upload exceeds Upload-Length", 413, blob.size);
+      }
+      return blob.size;
+    } finally {
+      this.writing.delete(transferId);
+      await this.persist(blob);
+    }
+  }
+
+  async complete(transferId: string, expectedSha256?: string): Promise<RelayBlob> {
+    const blob = this.blobs.get(transferId);
+    if (!blob) throw new RelayStoreError("Upload session not found", 404);
+    if (blob.completed) return blob;
+    if (blob.size !== blob.length) {
+      throw new RelayStoreError("Upload incomplete", 409, blob.size);
+    }
+
+    const sha256 = await this.hash(blob);
+    const expected = expectedSha256 ?? blob.expectedSha256;
+    if (expected && expected.toLowerCase() !== sha256) {
+      await this.delete(transferId);
+      throw new RelayStoreError("Content does not match X-Content-SHA256", 422);
+    }
+
+    // The TTL restarts once the receiver can actually fetch the file
+    blob.sha256 = sha256;
+    blob.completed = true;
+    blob.expiresAt = new Date(Date.now() + this.limits.ttlMs);
+    await this.persist(blob);
+    return blob;
+  }
+
+  async createReadStream(transferId: string, range?: ByteRange): Promise<Readable> {
+    const blob = this.blobs.get(transferId);
+    if (!blob || !blob.completed) throw new RelayStoreError("File not found", 404);
+    return this.read(blob, range ?? { start: 0, end: blob.size - 1 });
+  }
+
+  async setExpiry(transferId: string, expiresAt: Date): Promise<void> {
+    const blob = this.blobs.get(transferId);
+    if (!blob) return;
+    blob.expiresAt = expiresAt;
+    await this.persist(blob);
+  }
+
+  async delete(transferId: string): Promise<void> {
+    const blob = this.blobs.get(transferId);
+    if (!blob) return;
+    this.blobs.delete(transferId);
+    await this.remove(blob);
+  }
+
+  async sweep(now = new Date()): Promise<number> {
+    const expired = Array.from(this.blobs.values()).filter(blob =>
+      blob.expiresAt <= now && !this.writing.has(blob.transferId)
+    );
+    for (const blob of expired) {
+      await this.delete(blob.transferId);
+    }
+    return expired.length;
+  }
+
+  private async hash(blob: RelayBlob): Promise<string> {
+    const hash = createHash("sha256");
+    if (blob.size > 0) {
+      for await (const chunk of this.read(blob, { start: 0, end: blob.size - 1 })) {
+        hash.update(chunk);
+      }
+    }
+    return hash.digest("hex");
+  }
+
+  // Passes bytes through up to the declared length and drops the rest, so the
+  // request can still be drained and answered with a 413
+  protected limitTo(blob: RelayBlob, offset: number) {
+    let received = 0;
+    let overflowed = false;
+    const remaining = blob.length - offset;
+    const transform = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        if (overflowed || received + chunk.length > remaining) {
+          overflowed = true;
+          callback();
+          return;
+        }
+        received += chunk.length;
+        callback(null, chunk);
+      },
+    });
+    return { transform, overflowed: () => overflowed };
+  }
+}
+
+export class MemoryRelayStore extends BaseRelayStore {
+  private data = new Map<string, Buffer[]>();
+
+  protected async allocate(blob: RelayBlob) {
+    this.data.set(blob.transferId, []);
+  }
+
+  protected async write(blob: RelayBlob, offset: number, source: Readable, limit: Transform) {
+    const chunks = this.data.get(blob.transferId)!;
+    let size = offset;
+    const sink = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk);
+        size += chunk.length;
+        callback();
+      },
+    });
+
+    try {
+      await pipeline(source, limit, sink);
+    } catch (error) {
+      blob.size = size;
+      throw error;
+    }
+    return size;
+  }
+
+  protected read(blob: RelayBlob, range: ByteRange) {
+    const buffer = Buffer.concat(this.data.get(blob.transferId) ?? []);
+    return Readable.from([buffer.subarray(range.start, range.end + 1)]);
+  }
+
+  protected async remove(blob: RelayBlob) {
+    this.data.delete(blob.transferId);
+  }
+}
+
+// Spools each blob to `<dir>/<hash>.bin` with its metadata alongside in
+// `<hash>.json`, so relayed files survive a restart until they expire
+export class FileSystemRelayStore extends BaseRelayStore {
+  constructor(private dir: string, limits: RelayStoreLimits) {
+    super(limits);
+  }
+
+  private basePath(transferId: string) {
+    // Hashing keeps client-chosen ids out of the filesystem namespace
+    return path.join(this.dir, createHash("sha256").update(transferId).digest("hex"));
+  }
+
+  async init(): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+
+    for (const entry of await fs.promises.readdir(this.dir)) {
+      if (!entry.endsWith(".json")) continue;
+      try {
+        const raw = JSON.parse(await fs.promises.readFile(path.join(this.dir, entry), "utf8"));
+        const blob: RelayBlob = {
+          encryption: null,
+          expectedSha256: null,
+          sha256: null,
+          ...raw,
+          createdAt: new Date(raw.createdAt),
+          expiresAt: new Date(raw.expiresAt),
+        };
+        // Trust the data file over the metadata for how much actually landed
+        const stat = await fs.promises.stat(`${this.basePath(blob.transferId)}.bin`);
+        blob.size = Math.min(stat.size, blob.length);
+        this.blobs.set(blob.transferId, blob);
+      } catch (error) {
+        console.error(`Skipping unreadable relay spool entry ${entry}:`, error);
+      }
+    }
+  }
+
+  protected async allocate(blob: RelayBlob) {
+    await fs.promises.writeFile(`${this.basePath(blob.transferId)}.bin`, "");
+  }
+
+  protected async persist(blob: RelayBlob) {
+    if (!this.blobs.has(blob.transferId)) return;
+    await fs.promises.writeFile(`${this.basePath(blob.transferId)}.json`, JSON.stringify(blob));
+  }
+
+  protected async write(blob: RelayBlob, offset: number, source: Readable, limit: Transform) {
+    const out = fs.createWriteStream(`${this.basePath(blob.transferId)}.bin`, { flags: "r+", start: offset });
+    try {
+      await pipeline(source, limit, out);
+    } catch (error) {
+      blob.size = offset + out.bytesWritten;
+      throw error;
+    }
+    return offset + out.bytesWritten;
+  }
+
+  protected read(blob: RelayBlob, range: ByteRange) {
+    return fs.createReadStream(`${this.basePath(blob.transferId)}.bin`, { start: range.start, end: range.end });
+  }
+
+  protected async remove(blob: RelayBlob) {
+    const base = this.basePath(blob.transferId);
+    await fs.promises.rm(`${base}.bin`, { force: true });
+    await fs.promises.rm(`${base}.json`, { force: true });
+  }
+}
+
+const MB = 1024 * 1024;
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const limits: RelayStoreLimits = {
+  ttlMs: numberFromEnv("RELAY_TTL_MINUTES", 60) * 60 * 1000,
+  maxTotalBytes: numberFromEnv("RELAY_MAX_TOTAL_MB", 10 * 1024) * MB,
+  maxBytesPerDevice: numberFromEnv("RELAY_MAX_DEVICE_MB", 2 * 1024) * MB,
+};
+
+// RELAY_STORE=memory keeps relayed files in process memory (tests, throwaway
+// instances); everything else spools to RELAY_SPOOL_DIR
+export const relayStore: IRelayStore = process.env.RELAY_STORE === "memory"
+  ? new MemoryRelayStore(limits)
+  : new FileSystemRelayStore(process.env.RELAY_SPOOL_DIR || path.join(os.tmpdir(), "pixeldrop-relay"), limits);
+
+export async function initRelayStore(): Promise<void> {
+  if (relayStore instanceof FileSystemRelayStore) {
+    await relayStore.init();
+  }
+
+  const sweeper = setInterval(async () => {
+    try {
+      const removed = await relayStore.sweep();
+      if (removed > 0) {
+        console.log(`Relay sweeper removed ${removed} expired file(s)`);
+      }
+    } catch (error) {
+      console.error("Relay sweep failed:", error);
+    }
+  }, 60 * 1000);
+  sweeper.unref();
+}
+
+// Parse a single `bytes=` range against a file size. Returns undefined when
+// the header is absent or not a single range (serve the whole file), and
+// null when the range cannot be satisfied.
+export function parseRange(header: string | undefined, size: number): ByteRange | null | undefined {
+  if (!header) return undefined;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return undefined;
+
+  const [, startText, endText] = match;
+  if (!startText && !endText) return undefined;
+
+  let start: number;
+  let end: number;
+  if (!startText) {
+    // Suffix range: the last N bytes
+    const suffix = Number(endText);
+    if (suffix === 0) return null;
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = Number(startText);
+    end = endText ? Math.min(Number(endText), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return null;
+  return { start, end };
+}
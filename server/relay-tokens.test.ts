@@ -0,0 +1,74 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { issueRelayToken, verifyRelayToken, RelayTokenError } from "./relay-tokens";
+
+function assertRefused(verify: () => unknown, status: number, message: RegExp) {
+  assert.throws(verify, (error: unknown) => {
+    assert.ok(error instanceof RelayTokenError);
+    assert.equal(error.status, status);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe("relay tokens", () => {
+  const realNow = Date.now;
+
+  afterEach(() => {
+    Date.now = realNow;
+  });
+
+  it("accepts a token for its transfer, scope and device", () => {
+    const { token, expiresAt } = issueRelayToken("t1", "bob", "download");
+    const claims = verifyRelayToken(token, "t1", "download", true, "bob");
+    assert.equal(claims.deviceId, "bob");
+    assert.equal(claims.expiresAt, expiresAt);
+  });
+
+  it("requires a token", () => {
+    assertRefused(() => verifyRelayToken(undefined, "t1", "upload", false), 401, /required/);
+  });
+
+  it("refuses a token for another transfer or scope", () => {
+    const { token } = issueRelayToken("t1", "alice", "upload");
+    assertRefused(() => verifyRelayToken(token, "t2", "upload", false), 403, /Invalid/);
+    assertRefused(() => verifyRelayToken(token, "t1", "download", false), 403, /Invalid/);
+  });
+
+  it("refuses a token issued to another device", () => {
+    const { token } = issueRelayToken("t1", "mallory", "download");
+    assertRefused(() => verifyRelayToken(token, "t1", "download", true, "bob"), 403, /another device/);
+    // The refused attempt did not spend it
+    verifyRelayToken(token, "t1", "download", true, "mallory");
+  });
+
+  it("refuses a tampered token", () => {
+    const { token } = issueRelayToken("t1", "bob", "download");
+    const parts = token.split(".");
+    parts[1] = Buffer.from("mallory").toString("base64url");
+    assertRefused(() => verifyRelayToken(parts.join("."), "t1", "download", false), 403, /Invalid/);
+  });
+
+  it("refuses an expired token", () => {
+    const { token, expiresAt } = issueRelayToken("t1", "alice", "upload");
+    Date.now = () => expiresAt;
+    assertRefused(() => verifyRelayToken(token, "t1", "upload", false), 403, /expired/);
+  });
+
+  it("spends a download token on first use, but not on a probe", () => {
+    const { token } = issueRelayToken("t1", "bob", "download");
+    verifyRelayToken(token, "t1", "download", false);
+    verifyRelayToken(token, "t1", "download", true);
+    assertRefused(() => verifyRelayToken(token, "t1", "download", true), 403, /already used/);
+    assertRefused(() => verifyRelayToken(token, "t1", "download", false), 403, /already used/);
+  });
+
+  it("lets upload and ICE tokens be used until they expire", () => {
+    const upload = issueRelayToken("t1", "alice", "upload");
+    const ice = issueRelayToken("alice", "alice", "ice");
+    for (let i = 0; i < 3; i++) {
+      verifyRelayToken(upload.token, "t1", "upload", true);
+      verifyRelayToken(ice.token, "alice", "ice", true, "alice");
+    }
+  });
+});
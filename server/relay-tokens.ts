@@ -0,0 +1,108 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { RelayTokenScope } from "@shared/schema";
+
+// Relay requests are authorized with tokens the server hands out over the
+// owner's own WebSocket: the sender gets an upload token with its offer and
+// the receiver a download token when it accepts. ICE tokens, which fetch TURN
+// credentials, are bound to the device itself. A token is an HMAC over
+// "<transferId>.<deviceId>.<scope>.<expiresAt>.<nonce>", so nothing needs to
+// be stored except the nonces of spent download tokens.
+
+export interface RelayTokenClaims {
+  transferId: string;
+  deviceId: string;
+  scope: RelayTokenScope;
+  expiresAt: number;
+  nonce: string;
+}
+
+export class RelayTokenError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "RelayTokenError";
+  }
+}
+
+// Uploads span many requests and can take a while, so their tokens are
+// reusable until they expire; a download token is spent by the first GET
+const TOKEN_TTL: Record<RelayTokenScope, number> = {
+  upload: 30 * 60 * 1000,
+  download: 5 * 60 * 1000,
+  ice: 5 * 60 * 1000,
+};
+
+// Without a configured secret, tokens simply stop working after a restart
+const secret = process.env.RELAY_TOKEN_SECRET || randomBytes(32).toString("hex");
+
+// Spent download nonces, kept until the token would have expired anyway
+const spentNonces = new Map<string, number>();
+
+function sign(payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+function encode(claims: RelayTokenClaims): string {
+  const payload = [claims.transferId, claims.deviceId, claims.scope, claims.expiresAt, claims.nonce]
+    .map(part => Buffer.from(String(part)).toString("base64url"))
+    .join(".");
+  return `${payload}.${sign(payload)}`;
+}
+
+function decode(token: string): RelayTokenClaims | null {
+  const parts = token.split(".");
+  if (parts.length !== 6) return null;
+
+  const payload = parts.slice(0, 5).join(".");
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(parts[5]);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  const [transferId, deviceId, scope, expiresAt, nonce] = parts.slice(0, 5)
+    .map(part => Buffer.from(part, "base64url").toString());
+  if (scope !== "upload" && scope !== "download" && scope !== "ice") return null;
+  return { transferId, deviceId, scope, expiresAt: Number(expiresAt), nonce };
+}
+
+export function issueRelayToken(transferId: string, deviceId: string, scope: RelayTokenScope) {
+  const expiresAt = Date.now() + TOKEN_TTL[scope];
+  const token = encode({ transferId, deviceId, scope, expiresAt, nonce: randomBytes(12).toString("base64url") });
+  return { token, expiresAt };
+}
+
+// Check a token presented for `scope` on `transferId`, issued to `deviceId`
+// when given. Download tokens are spent when `consume` is set, so a HEAD probe
+// leaves them usable.
+export function verifyRelayToken(token: string | undefined, transferId: string, scope: RelayTokenScope, consume: boolean, deviceId?: string): RelayTokenClaims {
+  if (!token) {
+    throw new RelayTokenError("Relay token required", 401);
+  }
+
+  const claims = decode(token);
+  if (!claims || claims.transferId !== transferId || claims.scope !== scope) {
+    throw new RelayTokenError("Invalid relay token", 403);
+  }
+  if (deviceId !== undefined && claims.deviceId !== deviceId) {
+    throw new RelayTokenError("Relay token was issued to another device", 403);
+  }
+  if (claims.expiresAt <= Date.now()) {
+    throw new RelayTokenError("Relay token expired", 403);
+  }
+
+  if (scope === "download") {
+    if (spentNonces.has(claims.nonce)) {
+      throw new RelayTokenError("Relay token already used", 403);
+    }
+    if (consume) {
+      sweepSpentNonces();
+      spentNonces.set(claims.nonce, claims.expiresAt);
+    }
+  }
+  return claims;
+}
+
+function sweepSpentNonces() {
+  const now = Date.now();
+  spentNonces.forEach((expiresAt, nonce) => {
+    if (expiresAt <= now) spentNonces.delete(nonce);
+  });
+}
@@ -0,0 +1,58 @@
+import type { IncomingMessage } from "http";
+import { createHash } from "crypto";
+import net from "net";
+
+// Devices only discover each other within a room: a named room joined by code
+// (/r/:code), or by default everyone behind the same public address, which
+// behaves like a LAN. Clients connecting from private addresses are on the
+// same network as the server and share the "lan" room.
+
+// Behind a reverse proxy the socket address is the proxy's own
+const trustProxy = Boolean(process.env.TRUST_PROXY);
+
+export function clientAddress(req: IncomingMessage): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && forwarded) {
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded).split(",")[0].trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress ?? "";
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return a === 10 || a === 127 ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 169 && b === 254);
+  }
+  const lower = address.toLowerCase();
+  return lower === "::1" || lower.startsWith("fc") || lower.startsWith("fd") || lower.startsWith("fe80:");
+}
+
+// Hosts on one IPv6 network share the /64 prefix rather than an address
+function ipv6Prefix(address: string): string {
+  const [head, tail = ""] = address.toLowerCase().split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = address.includes("::")
+    ? [...headGroups, ...Array(missing).fill("0"), ...tailGroups]
+    : headGroups;
+  return groups.slice(0, 4).map(group => group.replace(/^0+(?=.)/, "")).join(":");
+}
+
+export function networkRoom(address: string): string {
+  // IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d
+  const normalized = address.replace(/^::ffff:/i, "");
+  if (!normalized || isPrivateAddress(normalized)) return "lan";
+
+  const network = net.isIPv6(normalized) ? ipv6Prefix(normalized) : normalized;
+  // Rooms end up in the database, so keep addresses out of them
+  return `net:${createHash("sha256").update(network).digest("hex").slice(0, 16)}`;
+}
+
+export function codeRoom(code: string): string {
+  return `code:${code.toUpperCase()}`;
+}
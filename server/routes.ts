@@ -1,15 +1,37 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import archiver from "archiver";
 import { storage } from "./storage";
-import { wsMessageSchema, type WSMessage } from "@shared/schema";
+import { clientAddress, codeRoom, networkRoom } from "./rooms";
+import { issueRelayToken, verifyRelayToken, RelayTokenError } from "./relay-tokens";
+import { getIceConfig } from "./ice-config";
+import {
+  SignalingError,
+  claimDevice,
+  peerOf,
+  requireDevice,
+  requireReceiver,
+  requireSameRoom,
+  requireSelf,
+  requireSession,
+  requireTransfer,
+  requireUnusedId
+} from "./signaling";
+import { relayStore, RelayStoreError, parseRange, type RelayBlob } from "./relay-store";
+import { relativePathSchema, roomCodeSchema, wsMessageSchema, type RelayTokenScope, type WSError, type WSMessage } from "@shared/schema";
 import { z } from "zod";
 
+// Offers the receiver neither accepts nor declines in this time expire
+const OFFER_TIMEOUT_MS = (Number(process.env.OFFER_TIMEOUT_SECONDS) || 120) * 1000;
+
 interface WebSocketClient extends WebSocket {
   deviceId?: string;
+  // Room derived from the connection's address, used unless a code room is joined
+  networkRoom: string;
+  room?: string;
 }
 
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
@@ -20,22 +42,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const connectedClients = new Map<string, WebSocketClient>();
+  // Pending offers by transferId or batchId
+  const offerTimers = new Map<string, NodeJS.Timeout>();
 
-  wss.on('connection', (ws: WebSocketClient) => {
+  wss.on('connection', (ws: WebSocketClient, req) => {
     console.log('WebSocket client connected');
+    ws.networkRoom = networkRoom(clientAddress(req));
 
     ws.on('message', async (data) => {
+      let validatedMessage: WSMessage;
       try {
         const message = JSON.parse(data.toString());
-        const validatedMessage = wsMessageSchema.parse(message);
-        
-        await handleWebSocketMessage(ws, validatedMessage);
+        validatedMessage = wsMessageSchema.parse(message);
       } catch (error) {
         console.error('WebSocket message error:', error);
-        ws.send(JSON.stringify({
-          type: 'error',
-          message: 'Invalid message format'
-        }));
+        sendError(ws, { code: 'invalid-message', message: 'Invalid message format' });
+        return;
+      }
+
+      try {
+        await handleWebSocketMessage(ws, validatedMessage);
+      } catch (error) {
+        if (error instanceof SignalingError) {
+          console.warn(`Refused ${validatedMessage.type} from ${ws.deviceId ?? 'unregistered client'}: ${error.message}`);
+          sendError(ws, {
+            code: error.code,
+            message: error.message,
+            requestType: validatedMessage.type,
+            transferId: error.transferId
+          });
+        } else {
+          console.error('WebSocket message error:', error);
+        }
       }
     });
 
@@ -43,7 +81,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (ws.deviceId) {
         await storage.setDeviceOffline(ws.deviceId);
         connectedClients.delete(ws.deviceId);
-        broadcastDeviceList();
+        if (ws.room !== undefined) broadcastDeviceList(ws.room);
       }
     });
   });
@@ -51,16 +89,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   async function handleWebSocketMessage(ws: WebSocketClient, message: WSMessage) {
     switch (message.type) {
       case 'device-register': {
+        // A socket stays bound to the device it first registered as, which
+        // it has to prove it owns
+        let issuedSecret: string | undefined;
+        if (ws.deviceId) {
+          requireSelf(ws.deviceId, message.device.deviceId);
+        } else {
+          issuedSecret = await claimDevice(message.device.deviceId, message.secret, connectedClients.has(message.device.deviceId));
+        }
+
         try {
+          // The room is always decided here, never taken from the client's device
+          const room = message.roomCode ? codeRoom(message.roomCode) : ws.networkRoom;
+
           // Check if device already exists
           let device = await storage.getDevice(message.device.deviceId);
+          const previousRoom = device?.room;
           if (!device) {
-            device = await storage.createDevice(message.device);
+            device = await storage.createDevice({ ...message.device, room });
           } else {
             device = await storage.updateDevice(message.device.deviceId, {
               name: message.device.name,
               type: message.device.type,
-              status: 'available'
+              status: 'available',
+              room
             });
           }
 
@@ -72,17 +124,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
           
           ws.deviceId = message.device.deviceId;
+          ws.room = room;
           connectedClients.set(message.device.deviceId, ws);
+          if (issuedSecret) {
+            ws.send(JSON.stringify({ type: 'device-secret', deviceId: ws.deviceId, secret: issuedSecret }));
+          }
+          sendRelayToken(ws, ws.deviceId, ws.deviceId, 'ice');
 
           // Send current device list to new client
-          const devices = await storage.getAvailableDevices(ws.deviceId);
+          const devices = await storage.getAvailableDevices(room, ws.deviceId);
           ws.send(JSON.stringify({
             type: 'device-list',
             devices
           }));
 
-          // Broadcast updated device list to all clients
-          broadcastDeviceList();
+          // Broadcast updated device list to the room, and to the room the device left
+          broadcastDeviceList(room);
+          if (previousRoom && previousRoom !== room) {
+            broadcastDeviceList(previousRoom);
+          }
         } catch (error) {
           console.error('Device registration error:', error);
         }
@@ -90,14 +150,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       case 'device-update': {
-        if (ws.deviceId) {
-          await storage.updateDevice(ws.deviceId, message.updates);
-          broadcastDeviceList();
+        const deviceId = requireDevice(ws.deviceId);
+        requireSelf(deviceId, message.deviceId);
+
+        await storage.updateDevice(deviceId, message.updates);
+        if (ws.room !== undefined) {
+          broadcastDeviceList(ws.room);
         }
         break;
       }
 
       case 'transfer-offer': {
+        const deviceId = requireDevice(ws.deviceId);
+        requireSelf(deviceId, message.senderId, message.transferId);
+        await requireSameRoom(deviceId, message.receiverId, message.transferId);
+        // Reusing an id would let an offer take over someone else's transfer
+        await requireUnusedId(message.transferId);
+
         try {
           const transfer = await storage.createTransfer({
             transferId: message.transferId,
@@ -110,59 +179,190 @@ export async function registerRoutes(app: Express): Promise<Server> {
             progress: 0
           });
 
+          // The sender may need the relay if no peer connection comes up
+          sendRelayToken(ws, message.transferId, deviceId, 'upload');
+
           // Forward to recipient
           const recipientWs = connectedClients.get(message.receiverId);
           if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
             recipientWs.send(JSON.stringify(message));
           }
+          scheduleOfferExpiry(message.transferId);
         } catch (error) {
           console.error('Transfer offer error:', error);
         }
         break;
       }
 
-      case 'transfer-answer': {
-        const transfer = await storage.updateTransfer(message.transferId, {
-          status: message.accepted ? 'accepted' : 'rejected'
-        });
+      case 'batch-offer': {
+        const deviceId = requireDevice(ws.deviceId);
+        requireSelf(deviceId, message.senderId, message.batchId);
+        await requireSameRoom(deviceId, message.receiverId, message.batchId);
 
-        // Track accepted transfers for download authorization
-        if (message.accepted) {
-          acceptedTransfers.add(message.transferId);
-          console.log(`Transfer ${message.transferId} accepted by user`);
-        } else {
-          console.log(`Transfer ${message.transferId} rejected by user`);
+        const fileIds = message.files.map(file => file.transferId);
+        if (new Set(fileIds).size !== fileIds.length || fileIds.includes(message.batchId)) {
+          throw new SignalingError('transfer-exists', 'Batch contains duplicate transfer ids', message.batchId);
+        }
+        if (message.files.reduce((total, file) => total + file.fileSize, 0) !== message.totalSize) {
+          throw new SignalingError('invalid-message', 'Batch totalSize does not match its files', message.batchId);
+        }
+        for (const id of [message.batchId, ...fileIds]) {
+          await requireUnusedId(id);
         }
 
-        if (transfer) {
-          // Forward to sender
-          const senderWs = connectedClients.get(transfer.senderId);
-          if (senderWs && senderWs.readyState === WebSocket.OPEN) {
-            senderWs.send(JSON.stringify(message));
+        for (const file of message.files) {
+          await storage.createTransfer({
+            transferId: file.transferId,
+            fileName: file.fileName,
+            fileSize: file.fileSize,
+            fileType: file.fileType,
+            senderId: message.senderId,
+            receiverId: message.receiverId,
+            status: 'pending',
+            progress: 0,
+            batchId: message.batchId,
+            relativePath: file.relativePath ?? null
+          });
+          sendRelayToken(ws, file.transferId, deviceId, 'upload');
+        }
+
+        const recipientWs = connectedClients.get(message.receiverId);
+        if (recipientWs && recipientWs.readyState === WebSocket.OPEN) {
+          recipientWs.send(JSON.stringify(message));
+        }
+        scheduleOfferExpiry(message.batchId);
+        break;
+      }
+
+      case 'transfer-answer': {
+        // Answers a single transfer or, by batchId, every file of a batch
+        const deviceId = requireDevice(ws.deviceId);
+        const session = await requireSession(message.transferId);
+        requireReceiver(session, deviceId);
+        if (session.transfers.some(transfer => transfer.status === 'expired')) {
+          throw new SignalingError('offer-expired', 'The offer expired before it was answered', session.transferId);
+        }
+        clearOfferExpiry(session.transferId);
+
+        for (const transfer of session.transfers) {
+          await storage.updateTransfer(transfer.transferId, {
+            status: message.accepted ? 'accepted' : 'rejected'
+          });
+
+          // Only an accepting receiver is ever able to download from the relay
+          if (message.accepted) {
+            sendRelayToken(ws, transfer.transferId, deviceId, 'download');
           }
         }
+        console.log(`Transfer ${message.transferId} ${message.accepted ? 'accepted' : 'rejected'} by user`);
+
+        // Forward to sender
+        const senderWs = connectedClients.get(session.senderId);
+        if (senderWs && senderWs.readyState === WebSocket.OPEN) {
+          senderWs.send(JSON.stringify(message));
+        }
         break;
       }
 
       case 'webrtc-offer':
       case 'webrtc-answer':
       case 'webrtc-ice-candidate': {
-        const transfer = await storage.getTransfer(message.transferId);
-        if (transfer) {
-          const targetDeviceId = message.type === 'webrtc-offer' ? transfer.receiverId : transfer.senderId;
-          const targetWs = connectedClients.get(targetDeviceId);
-          
-          if (targetWs && targetWs.readyState === WebSocket.OPEN) {
-            targetWs.send(JSON.stringify(message));
+        const deviceId = requireDevice(ws.deviceId);
+        const session = await requireSession(message.transferId);
+        // Signaling always goes to the other party, whichever side sent it
+        const targetWs = connectedClients.get(peerOf(session, deviceId));
+
+        if (targetWs && targetWs.readyState === WebSocket.OPEN) {
+          targetWs.send(JSON.stringify(message));
+        }
+        break;
+      }
+
+      case 'transfer-resume': {
+        const deviceId = requireDevice(ws.deviceId);
+        const session = await requireSession(message.transferId);
+        const peerId = peerOf(session, deviceId);
+        if (session.transfers.some(transfer => transfer.status === 'cancelled')) {
+          throw new SignalingError('transfer-cancelled', 'Transfer was cancelled', session.transferId);
+        }
+
+        if (!message.missingRanges) {
+          // Ending a pause: the peer picks up again, asking for missing ranges if its connection is gone
+          if (message.files) {
+            throw new SignalingError('invalid-message', 'Files need missing ranges', session.transferId);
+          }
+          for (const transfer of session.transfers) {
+            if (transfer.status === 'paused') {
+              await storage.updateTransfer(transfer.transferId, { status: 'transferring' });
+            }
+          }
+        } else {
+          // The receiver lost its peer connection: ask the sender to re-send only what is missing.
+          // Relay uploads resume through HEAD /api/transfer/:transferId/upload instead.
+          requireReceiver(session, deviceId);
+
+          const resumedIds = message.files?.map(file => file.transferId) ?? [message.transferId];
+          for (const id of resumedIds) {
+            if (!session.transfers.some(transfer => transfer.transferId === id)) {
+              throw new SignalingError('not-a-party', 'File is not part of this batch', id);
+            }
+          }
+          for (const id of resumedIds) {
+            await storage.updateTransfer(id, { status: 'transferring' });
           }
         }
+
+        const peerWs = connectedClients.get(peerId);
+        if (peerWs && peerWs.readyState === WebSocket.OPEN) {
+          peerWs.send(JSON.stringify(message));
+        }
+        break;
+      }
+
+      case 'transfer-pause':
+      case 'transfer-cancel': {
+        // Either side can stop a transfer; the other side is told so it stops too
+        const deviceId = requireDevice(ws.deviceId);
+        const session = await requireSession(message.transferId);
+        const peerId = peerOf(session, deviceId);
+
+        if (message.type === 'transfer-cancel') {
+          clearOfferExpiry(session.transferId);
+          for (const transfer of session.transfers) {
+            if (transfer.status !== 'completed') {
+              await storage.updateTransfer(transfer.transferId, { status: 'cancelled' });
+            }
+            // Nobody is going to fetch what the relay holds for it
+            await relayStore.delete(transfer.transferId);
+          }
+          console.log(`Transfer ${session.transferId} cancelled by ${deviceId}`);
+        } else {
+          for (const transfer of session.transfers) {
+            if (transfer.status === 'accepted' || transfer.status === 'transferring') {
+              await storage.updateTransfer(transfer.transferId, { status: 'paused' });
+            }
+          }
+        }
+
+        const peerWs = connectedClients.get(peerId);
+        if (peerWs && peerWs.readyState === WebSocket.OPEN) {
+          peerWs.send(JSON.stringify(message));
+        }
         break;
       }
 
       case 'transfer-progress': {
+        const current = await requireTransfer(message.transferId);
+        peerOf(current, requireDevice(ws.deviceId));
+        // Late reports from a side that has not heard of the cancel (or
+        // failure) yet; only transfer-complete finishes a transfer
+        if (!['accepted', 'transferring', 'paused'].includes(current.status)) break;
+
+        // A report does not end a pause either
         await storage.updateTransfer(message.transferId, {
           progress: message.progress,
-          status: message.progress >= 100 ? 'completed' : 'transferring'
+          ...(message.bytesTransferred !== undefined && { bytesTransferred: message.bytesTransferred }),
+          ...(current.status === 'accepted' && { status: 'transferring' })
         });
 
         // Broadcast to both sender and receiver
@@ -179,9 +379,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       case 'transfer-complete': {
+        const current = await requireTransfer(message.transferId);
+        peerOf(current, requireDevice(ws.deviceId));
+        if (current.status === 'cancelled') break;
+
+        // Both sides may report; whichever finishes last has the final word on the stats
+        const bytesTransferred = message.bytesTransferred ?? current.fileSize;
         await storage.updateTransfer(message.transferId, {
           status: 'completed',
-          progress: 100
+          progress: 100,
+          bytesTransferred,
+          ...(message.durationMs !== undefined && {
+            durationMs: message.durationMs,
+            averageSpeed: message.durationMs > 0 ? Math.round(bytesTransferred * 1000 / message.durationMs) : null
+          }),
+          ...(message.transport && { transport: message.transport })
         });
 
         const transfer = await storage.getTransfer(message.transferId);
@@ -197,8 +409,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       case 'transfer-error': {
+        peerOf(await requireTransfer(message.transferId), requireDevice(ws.deviceId));
+
         await storage.updateTransfer(message.transferId, {
-          status: 'failed'
+          status: message.code === 'integrity-failed' ? 'integrity-failed' : 'failed'
         });
 
         const transfer = await storage.getTransfer(message.transferId);
@@ -213,6 +427,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
         break;
       }
 
+      case 'relay-token-request': {
+        // Fresh tokens for expired ones and for each resumed download
+        const deviceId = requireDevice(ws.deviceId);
+        if (message.scope === 'ice') {
+          requireSelf(deviceId, message.transferId);
+        } else if (message.scope === 'upload') {
+          const transfer = await requireTransfer(message.transferId);
+          requireSelf(deviceId, transfer.senderId, transfer.transferId);
+        } else {
+          const transfer = await requireTransfer(message.transferId);
+          requireReceiver(transfer, deviceId);
+          if (['pending', 'rejected', 'expired'].includes(transfer.status)) {
+            throw new SignalingError('not-accepted', 'Transfer has not been accepted', transfer.transferId);
+          }
+        }
+
+        sendRelayToken(ws, message.transferId, deviceId, message.scope);
+        break;
+      }
+
+      case 'text-share': {
+        // Forwarded as is, never stored; the sender hears back when it can't be delivered
+        const deviceId = requireDevice(ws.deviceId);
+        requireSelf(deviceId, message.senderId);
+
+        const recipientWs = connectedClients.get(message.receiverId);
+        if (!recipientWs || recipientWs.readyState !== WebSocket.OPEN) {
+          throw new SignalingError('peer-offline', 'Receiver is not connected', message.shareId);
+        }
+        recipientWs.send(JSON.stringify(message));
+        break;
+      }
+
+      case 'pair-request':
+      case 'pair-accept':
+      case 'pair-reveal':
+      case 'pair-cancel': {
+        // Pairing is verified end to end by the two users; the server only
+        // relays, and only within a room
+        const deviceId = requireDevice(ws.deviceId);
+        await requireSameRoom(deviceId, message.peerId, message.pairingId);
+
+        const peerWs = connectedClients.get(message.peerId);
+        if (peerWs && peerWs.readyState === WebSocket.OPEN) {
+          peerWs.send(JSON.stringify({ ...message, peerId: deviceId }));
+        } else if (message.type !== 'pair-cancel') {
+          ws.send(JSON.stringify({
+            type: 'pair-cancel',
+            pairingId: message.pairingId,
+            peerId: message.peerId,
+            reason: 'Device is offline'
+          }));
+        }
+        break;
+      }
+
       default: {
         // 处理心跳和其他未定义的消息类型
         if (message.type === 'ping') {
@@ -232,15 +502,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }
 
-  async function broadcastDeviceList() {
-    const devices = await storage.getAvailableDevices();
-    const message = JSON.stringify({
-      type: 'device-list',
-      devices
-    });
+  function sendRelayToken(ws: WebSocketClient, transferId: string, deviceId: string, scope: RelayTokenScope) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'relay-token', transferId, scope, ...issueRelayToken(transferId, deviceId, scope) }));
+    }
+  }
+
+  // An unanswered offer would leave the sender waiting forever; once it
+  // expires both sides are told and a late answer is refused
+  function scheduleOfferExpiry(offerId: string) {
+    const timer = setTimeout(async () => {
+      offerTimers.delete(offerId);
+      try {
+        const session = await requireSession(offerId);
+        if (!session.transfers.every(transfer => transfer.status === 'pending')) return;
+
+        for (const transfer of session.transfers) {
+          await storage.updateTransfer(transfer.transferId, { status: 'expired' });
+        }
+        console.log(`Offer ${offerId} expired without an answer`);
+
+        for (const deviceId of [session.senderId, session.receiverId]) {
+          const client = connectedClients.get(deviceId);
+          if (client && client.readyState === WebSocket.OPEN) {
+            client.send(JSON.stringify({ type: 'transfer-expired', transferId: offerId }));
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to expire offer ${offerId}:`, error);
+      }
+    }, OFFER_TIMEOUT_MS);
+    timer.unref();
+    offerTimers.set(offerId, timer);
+  }
+
+  function clearOfferExpiry(offerId: string) {
+    clearTimeout(offerTimers.get(offerId));
+    offerTimers.delete(offerId);
+  }
+
+  function sendError(ws: WebSocketClient, error: Omit<WSError, 'type'>) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'error', ...error }));
+    }
+  }
+
+  // Devices only learn about others in their own room
+  async function broadcastDeviceList(room: string) {
+    const devices = await storage.getAvailableDevices(room);
 
     connectedClients.forEach((ws, deviceId) => {
-      if (ws.readyState === WebSocket.OPEN) {
+      if (ws.room === room && ws.readyState === WebSocket.OPEN) {
         const filteredDevices = devices.filter(d => d.deviceId !== deviceId);
         ws.send(JSON.stringify({
           type: 'device-list',
@@ -250,186 +562,338 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }
 
-  // File transfer storage for fallback
-  const fileTransfers = new Map<string, { file: Buffer; fileName: string; fileType: string; relativePath: string; uploadedAt: Date }>();
-
   // REST API endpoints
   app.get('/api/devices', async (req, res) => {
     try {
-      const devices = await storage.getAvailableDevices();
+      const code = roomCodeSchema.safeParse(req.query.room);
+      const room = code.success ? codeRoom(code.data) : networkRoom(clientAddress(req));
+      const devices = await storage.getAvailableDevices(room);
       res.json(devices);
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch devices' });
     }
   });
 
+  // STUN/TURN servers for peer connections; TURN credentials are fresh on
+  // every call and only go to registered devices, with an ICE token bound to
+  // the device that also labels the credential
+  app.get('/api/ice-config', (req, res) => {
+    try {
+      const deviceId = typeof req.query.deviceId === 'string' ? req.query.deviceId : '';
+      const claims = verifyRelayToken(readRelayToken(req), deviceId, 'ice', false, deviceId);
+      res.set('Cache-Control', 'no-store');
+      res.json(getIceConfig(claims.deviceId));
+    } catch (error) {
+      if (error instanceof RelayTokenError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('ICE config failed:', error);
+      res.status(500).json({ error: 'ICE config failed' });
+    }
+  });
+
   app.get('/api/transfers/:deviceId', async (req, res) => {
     try {
       const { deviceId } = req.params;
       const active = await storage.getActiveTransfers(deviceId);
       const history = await storage.getTransferHistory(deviceId);
+
+      // A batch in progress is listed whole, so finished files still count toward its progress
+      const batchIds = new Set(active.map(transfer => transfer.batchId).filter((id): id is string => Boolean(id)));
+      for (const batchId of Array.from(batchIds)) {
+        for (const file of await storage.getBatchTransfers(batchId)) {
+          if (!active.some(transfer => transfer.transferId === file.transferId)) {
+            active.push(file);
+          }
+        }
+      }
       
       res.json({ active, history });
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch transfers' });
     }
   });
-
-  // Track processed uploads to prevent duplicates
-  const processedUploads = new Set<string>();
-  
-  // Track notified transfers to prevent duplicate notifications
-  const notifiedTransfers = new Set<string>();
   
-  // Track accepted transfers to ensure downloads only happen after user consent
-  const acceptedTransfers = new Set<string>();
+  // Relay tokens come as `Authorization: Bearer <token>`, or as ?token= for plain links
+  function readRelayToken(req: Request): string | undefined {
+    const match = /^Bearer (\S+)$/.exec(req.headers.authorization || '');
+    if (match) return match[1];
+    return typeof req.query.token === 'string' ? req.query.token : undefined;
+  }
+
+  // Who may use a relay token for a transfer (or batch) right now: the sender
+  // uploads, the receiver downloads; nobody, for an id that doesn't exist
+  async function relayParty(id: string, scope: RelayTokenScope): Promise<string> {
+    const session = await requireSession(id).catch(() => undefined);
+    if (!session) return '';
+    return scope === 'upload' ? session.senderId : session.receiverId;
+  }
 
-  // 优化的文件上传端点：确保100%传输成功率
-  app.post('/api/transfer/:transferId/upload', (req, res) => {
+  function setUploadHeaders(res: Response, blob: RelayBlob) {
+    res.set({
+      'Upload-Offset': blob.size.toString(),
+      'Upload-Length': blob.length.toString(),
+      'Cache-Control': 'no-store'
+    });
+  }
+
+  function sendRelayError(res: Response, error: unknown, fallbackMessage: string) {
+    if (error instanceof RelayTokenError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof RelayStoreError) {
+      if (error.offset !== undefined) {
+        res.set('Upload-Offset', error.offset.toString());
+      }
+      return res.status(error.status).json({ error: error.message, offset: error.offset });
+    }
+
+    console.error(`${fallbackMessage}:`, error);
+    return res.status(500).json({ error: fallbackMessage });
+  }
+
+  // Hex SHA-256 from X-Content-SHA256: undefined when absent, null when malformed
+  function readContentSha256(req: Request): string | null | undefined {
+    const header = req.headers['x-content-sha256'];
+    if (header === undefined) return undefined;
+    return typeof header === 'string' && /^[0-9a-f]{64}$/i.test(header) ? header.toLowerCase() : null;
+  }
+
+  // Create (or look up) the relay upload session for a transfer
+  app.post('/api/transfer/:transferId/upload', async (req, res) => {
     const { transferId } = req.params;
-    const retryCount = parseInt(req.headers['x-retry-count'] as string) || 0;
-    const clientTimestamp = req.headers['x-client-timestamp'] as string;
-    
-    console.log(`Upload request for ${transferId} - attempt ${retryCount + 1}, client timestamp: ${clientTimestamp}`);
-    
-    // 防重复处理：检查是否已成功处理此传输
-    if (processedUploads.has(transferId)) {
-      console.log(`Transfer ${transferId} already processed successfully`);
-      res.json({ success: true, message: 'Transfer already completed' });
-      return;
+
+    try {
+      const { deviceId } = verifyRelayToken(readRelayToken(req), transferId, 'upload', false, await relayParty(transferId, 'upload'));
+      const length = parseInt(req.headers['upload-length'] as string);
+      const sha256 = readContentSha256(req);
+      if (sha256 === null) {
+        return res.status(400).json({ error: 'X-Content-SHA256 must be a hex SHA-256 digest' });
+      }
+
+      if ((await storage.getTransfer(transferId))?.status === 'cancelled') {
+        return res.status(410).json({ error: 'Transfer was cancelled' });
+      }
+
+      const existing = await relayStore.get(transferId);
+      if (existing) {
+        if (!Number.isNaN(length) && existing.length !== length) {
+          return res.status(409).json({ error: 'Upload-Length does not match existing session' });
+        }
+        if (sha256 && existing.expectedSha256 && existing.expectedSha256 !== sha256) {
+          return res.status(409).json({ error: 'X-Content-SHA256 does not match existing session' });
+        }
+        setUploadHeaders(res, existing);
+        return res.json({ offset: existing.size, length: existing.length, completed: existing.completed });
+      }
+
+      if (!Number.isSafeInteger(length) || length < 0) {
+        return res.status(400).json({ error: 'Upload-Length header required' });
+      }
+
+      const encryption = req.headers['x-relay-encryption'];
+      if (encryption !== undefined && (typeof encryption !== 'string' || !/^[a-z0-9-]{1,32}$/.test(encryption))) {
+        return res.status(400).json({ error: 'Invalid X-Relay-Encryption' });
+      }
+
+      const fileName = decodeURIComponent(req.headers['x-filename'] as string || 'unknown');
+      const relativePath = req.headers['x-relative-path'] as string ? decodeURIComponent(req.headers['x-relative-path'] as string) : fileName;
+      if (!relativePathSchema.safeParse(relativePath).success) {
+        return res.status(400).json({ error: 'Invalid X-Relative-Path' });
+      }
+
+      const blob = await relayStore.create({
+        transferId,
+        fileName,
+        fileType: req.headers['x-file-type'] as string || 'application/octet-stream',
+        relativePath,
+        encryption: encryption ?? null,
+        ownerId: deviceId,
+        length,
+        expectedSha256: sha256 ?? null
+      });
+      console.log(`Upload session created for ${transferId}: ${fileName} (${length} bytes)`);
+
+      setUploadHeaders(res, blob);
+      res.status(201).json({ offset: blob.size, length: blob.length, completed: false });
+    } catch (error) {
+      sendRelayError(res, error, 'Failed to create upload');
     }
-    
-    // 请求超时保护：设置30秒超时以防止hang住
-    const timeout = setTimeout(() => {
-      console.error(`Upload timeout for ${transferId} after 30 seconds`);
-      if (!res.headersSent) {
-        res.status(408).json({ error: 'Upload timeout' });
-      }
-    }, 30000);
-    
-    const chunks: Buffer[] = [];
-    let totalReceived = 0;
-    
-    req.on('data', (chunk) => {
-      chunks.push(chunk);
-      totalReceived += chunk.length;
-      console.log(`Received ${chunk.length} bytes, total: ${totalReceived}`);
-    });
-    
-    req.on('error', (error) => {
-      console.error(`Upload error for ${transferId}:`, error);
-      if (!res.headersSent) {
-        res.status(500).json({ error: 'Upload failed' });
+  });
+
+  // Report how many bytes the relay already holds so a client can resume
+  app.head('/api/transfer/:transferId/upload', async (req, res) => {
+    try {
+      verifyRelayToken(readRelayToken(req), req.params.transferId, 'upload', false, await relayParty(req.params.transferId, 'upload'));
+    } catch (error) {
+      return res.status(error instanceof RelayTokenError ? error.status : 500).end();
+    }
+
+    const blob = await relayStore.get(req.params.transferId);
+    if (!blob) {
+      return res.status(404).end();
+    }
+
+    setUploadHeaders(res, blob);
+    res.status(200).end();
+  });
+
+  // Append bytes at Upload-Offset. Bytes received before a dropped connection are kept.
+  app.patch('/api/transfer/:transferId/upload', async (req, res) => {
+    const { transferId } = req.params;
+
+    try {
+      verifyRelayToken(readRelayToken(req), transferId, 'upload', false, await relayParty(transferId, 'upload'));
+      const offset = parseInt(req.headers['upload-offset'] as string);
+      const size = await relayStore.append(transferId, offset, req);
+      res.set('Upload-Offset', size.toString());
+      res.status(204).end();
+    } catch (error) {
+      if (!(error instanceof RelayStoreError) && req.destroyed) {
+        const blob = await relayStore.get(transferId);
+        console.log(`Upload for ${transferId} interrupted at offset ${blob?.size ?? 0}`);
+        return;
       }
-    });
-    
-    req.on('end', async () => {
-      console.log(`Upload complete for ${transferId}, processing ${totalReceived} bytes`);
-      try {
-        const fileBuffer = Buffer.concat(chunks);
-        const fileName = decodeURIComponent(req.headers['x-filename'] as string || 'unknown');
-        const fileType = req.headers['content-type'] || 'application/octet-stream';
-        const relativePath = req.headers['x-relative-path'] as string ? decodeURIComponent(req.headers['x-relative-path'] as string) : fileName;
-        
-        // Mark as processed to prevent duplicates
-        processedUploads.add(transferId);
-        
-        fileTransfers.set(transferId, {
-          file: fileBuffer,
-          fileName,
-          fileType,
-          relativePath,
-          uploadedAt: new Date()
-        });
-        
-        // Update transfer status
-        await storage.updateTransfer(transferId, { status: 'completed', progress: 100 });
-        
-        // Notify receiver only once - prevent duplicate notifications
-        if (!notifiedTransfers.has(transferId)) {
-          notifiedTransfers.add(transferId);
-          
-          const transfer = await storage.getTransfer(transferId);
-          if (transfer) {
-            // Send notification to only one active connection of the receiver
-            const message = JSON.stringify({
-              type: 'transfer-complete',
-              transferId
-            });
-            
-            let notified = false;
-            // Find the first active connection for the receiver
-            const connections = Array.from(connectedClients.entries());
-            for (const [deviceId, ws] of connections) {
-              if (deviceId === transfer.receiverId && ws.readyState === WebSocket.OPEN && !notified) {
-                ws.send(message);
-                notified = true;
-                console.log(`Notified receiver ${deviceId} about completed transfer ${transferId}`);
-                break; // Only notify once
-              }
-            }
-            
-            if (!notified) {
-              console.log(`No active connection found for receiver ${transfer.receiverId}`);
-            }
-          }
-          
-          // Clean up notification tracking after delay
-          setTimeout(() => {
-            notifiedTransfers.delete(transferId);
-          }, 30000);
+      sendRelayError(res, error, 'Upload failed');
+    }
+  });
+
+  // Finalize a fully uploaded session and notify the receiver
+  app.post('/api/transfer/:transferId/upload/complete', async (req, res) => {
+    const { transferId } = req.params;
+
+    try {
+      verifyRelayToken(readRelayToken(req), transferId, 'upload', false, await relayParty(transferId, 'upload'));
+
+      // Completing twice is harmless, e.g. when the first response was lost
+      const existing = await relayStore.get(transferId);
+      if (existing?.completed) {
+        return res.json({ success: true, message: 'Transfer already completed' });
+      }
+
+      const sha256 = readContentSha256(req);
+      if (sha256 === null) {
+        return res.status(400).json({ error: 'X-Content-SHA256 must be a hex SHA-256 digest' });
+      }
+
+      const blob = await relayStore.complete(transferId, sha256);
+      console.log(`Upload complete for ${transferId}, ${blob.size} bytes`);
+
+      // The receiver reports timing once it has downloaded the file
+      const current = await storage.getTransfer(transferId);
+      const transfer = current && await storage.updateTransfer(transferId, {
+        status: 'completed',
+        progress: 100,
+        bytesTransferred: current.fileSize,
+        transport: 'relay'
+      });
+      if (transfer) {
+        const receiverWs = connectedClients.get(transfer.receiverId);
+        if (receiverWs && receiverWs.readyState === WebSocket.OPEN) {
+          receiverWs.send(JSON.stringify({
+            type: 'transfer-complete',
+            transferId,
+            transport: 'relay'
+          }));
+          console.log(`Notified receiver ${transfer.receiverId} about completed transfer ${transferId}`);
         } else {
-          console.log(`Transfer ${transferId} already notified, skipping`);
-        }
-        
-        // Clean up processed uploads after delay to allow retries if needed
-        setTimeout(() => {
-          processedUploads.delete(transferId);
-        }, 30000); // 30 seconds
-        
-        res.json({ success: true });
-      } catch (error) {
-        console.error('Upload failed:', error);
-        processedUploads.delete(transferId); // Remove on error to allow retry
-        res.status(500).json({ error: 'Upload failed' });
+          console.log(`No active connection found for receiver ${transfer.receiverId}`);
+        }
       }
-    });
+
+      res.json({ success: true });
+    } catch (error) {
+      sendRelayError(res, error, 'Upload failed');
+    }
   });
 
-  // Fallback file download endpoint
+  // Strong ETag derived from the content hash, so a resumed download can tell
+  // whether it is still fetching the same bytes
+  function relayETag(blob: RelayBlob) {
+    return blob.sha256 ? `"sha256-${blob.sha256}"` : undefined;
+  }
+
+  // Fallback file download endpoint, streamed from the relay store with Range support.
+  // Express answers HEAD through this handler too, which download managers use to probe.
   app.get('/api/transfer/:transferId/download', async (req, res) => {
     try {
       const { transferId } = req.params;
       
-      // Check if transfer was explicitly accepted by user
-      if (!acceptedTransfers.has(transferId)) {
-        console.log(`Download denied for ${transferId} - transfer not accepted by user`);
-        return res.status(403).json({ error: 'Transfer not accepted by user' });
-      }
-      
-      const fileData = fileTransfers.get(transferId);
-      
-      if (!fileData) {
+      // Tokens are only minted for the receiver once it accepted; HEAD probes don't spend them
+      verifyRelayToken(readRelayToken(req), transferId, 'download', req.method !== 'HEAD', await relayParty(transferId, 'download'));
+
+      const blob = await relayStore.get(transferId);
+      if (!blob || !blob.completed) {
         return res.status(404).json({ error: 'File not found' });
       }
+
+      const etag = relayETag(blob);
+
+      // If-Range only honours the Range when the client still holds the current
+      // representation; otherwise the whole file is sent again
+      const ifRange = req.headers['if-range'];
+      const rangeHeader = ifRange && (!etag || ifRange !== etag) ? undefined : req.headers.range;
+
+      const range = parseRange(rangeHeader, blob.size);
+      if (range === null) {
+        res.set('Content-Range', `bytes */${blob.size}`);
+        return res.status(416).end();
+      }
       
-      console.log(`Authorized download for accepted transfer ${transferId}: ${fileData.fileName}`);
+      console.log(`Authorized download for accepted transfer ${transferId}: ${blob.fileName}${range ? ` (bytes ${range.start}-${range.end})` : ''}`);
       
       res.set({
-        'Content-Type': fileData.fileType,
-        'Content-Disposition': `attachment; filename="${fileData.fileName}"`,
-        'Content-Length': fileData.file.length.toString()
+        'Content-Type': blob.fileType,
+        'Content-Disposition': `attachment; filename="${blob.fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(blob.fileName)}`,
+        'Accept-Ranges': 'bytes'
       });
-      
-      res.send(fileData.file);
-      
-      // Clean up after download
-      setTimeout(() => {
-        fileTransfers.delete(transferId);
-        acceptedTransfers.delete(transferId);
-      }, 60000); // Keep for 1 minute after download
-      
+      if (etag) {
+        res.set('ETag', etag);
+      }
+      if (blob.sha256) {
+        res.set('X-Content-SHA256', blob.sha256);
+      }
+      if (blob.encryption) {
+        res.set('X-Relay-Encryption', blob.encryption);
+      }
+
+      if (range) {
+        res.status(206);
+        res.set({
+          'Content-Range': `bytes ${range.start}-${range.end}/${blob.size}`,
+          'Content-Length': (range.end - range.start + 1).toString()
+        });
+      } else {
+        res.set('Content-Length', blob.size.toString());
+      }
+
+      if (req.method === 'HEAD' || blob.size === 0) {
+        return res.end();
+      }
+
+      const transfer = await storage.getTransfer(transferId);
+      const stream = await relayStore.createReadStream(transferId, range ?? undefined);
+      stream.on('error', (error) => {
+        console.error(`Relay read failed for ${transferId}:`, error);
+        res.destroy(error);
+      });
+      res.on('close', () => stream.destroy());
+
+      // Once the end of the file has been delivered, keep it around only
+      // briefly; files of a batch stay until their TTL, so the receiver can
+      // fetch them again as one zip
+      res.on('finish', () => {
+        if ((!range || range.end === blob.size - 1) && !transfer?.batchId) {
+          relayStore.setExpiry(transferId, new Date(Date.now() + 60000));
+        }
+      });
+
+      stream.pipe(res);
     } catch (error) {
+      if (error instanceof RelayTokenError) {
+        console.log(`Download denied for ${req.params.transferId}: ${error.message}`);
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error('Download failed:', error);
       res.status(500).json({ error: 'Download failed' });
     }
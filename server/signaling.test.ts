@@ -0,0 +1,298 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import WebSocket from "ws";
+import { Readable } from "stream";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { relayStore, initRelayStore } from "./relay-store";
+
+// Each test talks to the real WebSocket handler, so every message goes
+// through schema validation and handleWebSocketMessage as in production
+
+interface TestClient {
+  send(message: object): void;
+  // The next message of the given type, whether it already arrived or not
+  next(type: string): Promise<any>;
+  close(): void;
+}
+
+function connect(port: number): Promise<TestClient> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws`);
+    const received: any[] = [];
+    const waiters: Array<{ type: string; resolve: (message: any) => void }> = [];
+
+    ws.on("message", data => {
+      const message = JSON.parse(data.toString());
+      const index = waiters.findIndex(waiter => waiter.type === message.type);
+      if (index >= 0) {
+        waiters.splice(index, 1)[0].resolve(message);
+      } else {
+        received.push(message);
+      }
+    });
+    ws.on("error", reject);
+    ws.on("open", () => resolve({
+      send: message => ws.send(JSON.stringify(message)),
+      next: type => {
+        const index = received.findIndex(message => message.type === type);
+        if (index >= 0) return Promise.resolve(received.splice(index, 1)[0]);
+        return new Promise((resolveNext, rejectNext) => {
+          const timer = setTimeout(() => rejectNext(new Error(`No ${type} message arrived`)), 2000);
+          waiters.push({ type, resolve: message => { clearTimeout(timer); resolveNext(message); } });
+        });
+      },
+      close: () => ws.close()
+    }));
+  });
+}
+
+async function register(client: TestClient, deviceId: string) {
+  client.send({ type: "device-register", device: { deviceId, name: deviceId, type: "laptop", status: "available" } });
+  await client.next("device-list");
+}
+
+function offer(transferId: string, senderId: string, receiverId: string) {
+  return { type: "transfer-offer", transferId, fileName: "notes.txt", fileSize: 4, fileType: "text/plain", senderId, receiverId };
+}
+
+async function expectError(client: TestClient, code: string, requestType: string) {
+  const error = await client.next("error");
+  assert.equal(error.code, code);
+  assert.equal(error.requestType, requestType);
+  return error;
+}
+
+describe("signaling authorization", () => {
+  let server: Server;
+  let port: number;
+  let alice: TestClient;
+  let bob: TestClient;
+  let mallory: TestClient;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+
+    [alice, bob, mallory] = await Promise.all([connect(port), connect(port), connect(port)]);
+    await register(alice, "alice");
+    await register(bob, "bob");
+    await register(mallory, "mallory");
+
+    // A transfer between alice and bob that mallory is not part of
+    alice.send(offer("t1", "alice", "bob"));
+    await bob.next("transfer-offer");
+  });
+
+  after(() => {
+    for (const client of [alice, bob, mallory]) client.close();
+    server.close();
+  });
+
+  it("refuses transfer messages before device-register", async () => {
+    const stranger = await connect(port);
+    try {
+      stranger.send(offer("t-unregistered", "alice", "bob"));
+      await expectError(stranger, "not-registered", "transfer-offer");
+
+      stranger.send({ type: "webrtc-offer", transferId: "t1", connectionId: "c1", offer: { type: "offer", sdp: "" } });
+      await expectError(stranger, "not-registered", "webrtc-offer");
+
+      stranger.send({ type: "transfer-progress", transferId: "t1", progress: 50 });
+      await expectError(stranger, "not-registered", "transfer-progress");
+
+      assert.equal(await storage.getTransfer("t-unregistered"), undefined);
+    } finally {
+      stranger.close();
+    }
+  });
+
+  it("refuses an offer sent in another device's name", async () => {
+    mallory.send(offer("t-spoofed", "alice", "bob"));
+    const error = await expectError(mallory, "sender-mismatch", "transfer-offer");
+    assert.equal(error.transferId, "t-spoofed");
+    assert.equal(await storage.getTransfer("t-spoofed"), undefined);
+  });
+
+  it("refuses re-registering a socket as another device", async () => {
+    mallory.send({ type: "device-register", device: { deviceId: "alice", name: "alice", type: "laptop", status: "available" } });
+    await expectError(mallory, "sender-mismatch", "device-register");
+  });
+
+  it("only lets the receiver answer", async () => {
+    mallory.send({ type: "transfer-answer", transferId: "t1", accepted: true });
+    await expectError(mallory, "not-receiver", "transfer-answer");
+
+    alice.send({ type: "transfer-answer", transferId: "t1", accepted: true });
+    await expectError(alice, "not-receiver", "transfer-answer");
+
+    assert.equal((await storage.getTransfer("t1"))?.status, "pending");
+  });
+
+  it("keeps outsiders out of a transfer's signaling", async () => {
+    bob.send({ type: "transfer-answer", transferId: "t1", accepted: true });
+    await alice.next("transfer-answer");
+
+    mallory.send({ type: "webrtc-offer", transferId: "t1", connectionId: "c1", offer: { type: "offer", sdp: "" } });
+    await expectError(mallory, "not-a-party", "webrtc-offer");
+
+    mallory.send({ type: "webrtc-answer", transferId: "t1", connectionId: "c1", answer: { type: "answer", sdp: "" } });
+    await expectError(mallory, "not-a-party", "webrtc-answer");
+
+    mallory.send({ type: "webrtc-ice-candidate", transferId: "t1", connectionId: "c1", candidate: {} });
+    await expectError(mallory, "not-a-party", "webrtc-ice-candidate");
+
+    // The parties themselves still get through
+    alice.send({ type: "webrtc-offer", transferId: "t1", connectionId: "c1", offer: { type: "offer", sdp: "" } });
+    assert.equal((await bob.next("webrtc-offer")).connectionId, "c1");
+  });
+
+  it("keeps outsiders from reporting progress or completion", async () => {
+    mallory.send({ type: "transfer-progress", transferId: "t1", progress: 99 });
+    await expectError(mallory, "not-a-party", "transfer-progress");
+
+    mallory.send({ type: "transfer-complete", transferId: "t1" });
+    await expectError(mallory, "not-a-party", "transfer-complete");
+
+    const transfer = await storage.getTransfer("t1");
+    assert.equal(transfer?.progress, 0);
+    assert.equal(transfer?.status, "accepted");
+  });
+
+  it("only hands ICE config to a registered device with its own token", async () => {
+    const { token } = await alice.next("relay-token");
+    assert.equal((await fetch(`http://127.0.0.1:${port}/api/ice-config?deviceId=alice`)).status, 401);
+    const response = await fetch(`http://127.0.0.1:${port}/api/ice-config?deviceId=alice`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    assert.equal(response.status, 200);
+    assert.ok(Array.isArray((await response.json()).iceServers));
+
+    const stolen = await fetch(`http://127.0.0.1:${port}/api/ice-config?deviceId=mallory`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    assert.equal(stolen.status, 403);
+
+    mallory.send({ type: "relay-token-request", transferId: "alice", scope: "ice" });
+    await expectError(mallory, "sender-mismatch", "relay-token-request");
+  });
+
+  it("refuses signaling for a transfer that does not exist", async () => {
+    mallory.send({ type: "webrtc-offer", transferId: "t-missing", connectionId: "c1", offer: { type: "offer", sdp: "" } });
+    await expectError(mallory, "unknown-transfer", "webrtc-offer");
+  });
+
+  it("refuses a fresh socket registering as a connected device", async () => {
+    const impostor = await connect(port);
+    try {
+      impostor.send({ type: "device-register", device: { deviceId: "alice", name: "alice", type: "laptop", status: "available" } });
+      await expectError(impostor, "device-claimed", "device-register");
+
+      impostor.send({ type: "device-register", secret: "guess", device: { deviceId: "alice", name: "alice", type: "laptop", status: "available" } });
+      await expectError(impostor, "device-claimed", "device-register");
+
+      // alice keeps the connection and the id
+      alice.send({ type: "relay-token-request", transferId: "alice", scope: "ice" });
+      let token;
+      do {
+        token = await alice.next("relay-token");
+      } while (token.scope !== "ice");
+      assert.equal(token.transferId, "alice");
+    } finally {
+      impostor.close();
+    }
+  });
+
+  it("takes the device's secret to register its id again", async () => {
+    const first = await connect(port);
+    first.send({ type: "device-register", device: { deviceId: "dave", name: "dave", type: "laptop", status: "available" } });
+    const { secret } = await first.next("device-secret");
+    first.close();
+
+    const second = await connect(port);
+    try {
+      second.send({ type: "device-register", device: { deviceId: "dave", name: "dave", type: "laptop", status: "available" } });
+      await expectError(second, "device-claimed", "device-register");
+
+      second.send({ type: "device-register", secret, device: { deviceId: "dave", name: "dave", type: "laptop", status: "available" } });
+      await second.next("device-list");
+    } finally {
+      second.close();
+    }
+  });
+
+  it("records progress without finishing, resuming or reviving a transfer", async () => {
+    alice.send(offer("t2", "alice", "bob"));
+    await bob.next("transfer-offer");
+    bob.send({ type: "transfer-answer", transferId: "t2", accepted: true });
+    await alice.next("transfer-answer");
+
+    alice.send({ type: "transfer-progress", transferId: "t2", progress: 150 });
+    assert.equal((await alice.next("error")).code, "invalid-message");
+
+    // Only transfer-complete finishes it
+    alice.send({ type: "transfer-progress", transferId: "t2", progress: 100 });
+    await bob.next("transfer-progress");
+    let transfer = await storage.getTransfer("t2");
+    assert.equal(transfer?.progress, 100);
+    assert.equal(transfer?.status, "transferring");
+
+    bob.send({ type: "transfer-pause", transferId: "t2" });
+    await alice.next("transfer-pause");
+    alice.send({ type: "transfer-progress", transferId: "t2", progress: 100 });
+    await bob.next("transfer-progress");
+    assert.equal((await storage.getTransfer("t2"))?.status, "paused");
+
+    bob.send({ type: "transfer-cancel", transferId: "t2" });
+    await alice.next("transfer-cancel");
+    alice.send({ type: "transfer-progress", transferId: "t2", progress: 40 });
+    alice.send({ type: "transfer-progress", transferId: "t1", progress: 10 });
+    // The late report is dropped, not passed on
+    assert.equal((await bob.next("transfer-progress")).transferId, "t1");
+    transfer = await storage.getTransfer("t2");
+    assert.equal(transfer?.progress, 100);
+    assert.equal(transfer?.status, "cancelled");
+  });
+
+  it("sends the whole file when If-Range does not match", async () => {
+    await initRelayStore();
+    await relayStore.create({
+      transferId: "t1", fileName: "notes.txt", fileType: "text/plain", relativePath: "",
+      encryption: null, ownerId: "alice", length: 10, expectedSha256: null
+    });
+    await relayStore.append("t1", 0, Readable.from([Buffer.from("helloworld")]));
+    const { sha256 } = await relayStore.complete("t1");
+
+    // Download tokens are single-use, so each request gets its own
+    const download = async (headers: Record<string, string>) => {
+      bob.send({ type: "relay-token-request", transferId: "t1", scope: "download" });
+      let token;
+      do {
+        token = await bob.next("relay-token");
+      } while (token.scope !== "download" || token.transferId !== "t1");
+      return fetch(`http://127.0.0.1:${port}/api/transfer/t1/download`, {
+        headers: { Authorization: `Bearer ${token.token}`, ...headers }
+      });
+    };
+
+    try {
+      const partial = await download({ Range: "bytes=5-", "If-Range": `"sha256-${sha256}"` });
+      assert.equal(partial.status, 206);
+      assert.equal(partial.headers.get("content-range"), "bytes 5-9/10");
+      assert.equal(await partial.text(), "world");
+
+      const full = await download({ Range: "bytes=5-", "If-Range": '"sha256-stale"' });
+      assert.equal(full.status, 200);
+      assert.equal(full.headers.get("content-range"), null);
+      assert.equal(await full.text(), "helloworld");
+    } finally {
+      await relayStore.delete("t1");
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import type { SignalingErrorCode, Transfer } from "@shared/schema";
+
+// Signaling messages carry device and transfer ids chosen by the client, so
+// every message is checked against the device the socket registered as, and
+// registering as a device takes the secret it was given the first time:
+// offers go out only in the sender's own name, only the receiver answers, and
+// only the two parties of a transfer exchange signaling and progress for it.
+// Offers and pairing messages only reach devices in the sender's room.
+// A batch of files shares one peer connection, signaled under its batchId.
+// Pooled connections outlive that transfer and keep being signaled under it.
+
+export class SignalingError extends Error {
+  constructor(public code: SignalingErrorCode, message: string, public transferId?: string) {
+    super(message);
+    this.name = "SignalingError";
+  }
+}
+
+// The device bound to the socket; nothing transfer-related is accepted before registration
+export function requireDevice(deviceId: string | undefined): string {
+  if (!deviceId) {
+    throw new SignalingError("not-registered", "Register the device before sending this message");
+  }
+  return deviceId;
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+// A deviceId belongs to the device that registered it first, which was handed
+// a secret then and has to present it to register as that device again. An
+// id that is known or connected but has no secret can't be proven and is
+// refused too; the client then starts over with a new id. Returns the secret
+// to hand out when the id is new.
+export async function claimDevice(deviceId: string, secret: string | undefined, connected: boolean): Promise<string | undefined> {
+  const secretHash = await storage.getDeviceSecretHash(deviceId);
+  if (secretHash) {
+    const presented = Buffer.from(hashSecret(secret ?? ""));
+    const expected = Buffer.from(secretHash);
+    if (secret && presented.length === expected.length && timingSafeEqual(presented, expected)) return undefined;
+  } else if (!connected && !await storage.getDevice(deviceId)) {
+    const issued = randomBytes(32).toString("base64url");
+    // Two sockets racing for a new id: only the first gets it
+    if (await storage.createDeviceSecretHash(deviceId, hashSecret(issued))) return issued;
+  }
+  throw new SignalingError("device-claimed", "This device id belongs to another device");
+}
+
+export function requireSelf(deviceId: string, claimedId: string, transferId?: string) {
+  if (claimedId !== deviceId) {
+    throw new SignalingError("sender-mismatch", "Messages can only be sent as the registered device", transferId);
+  }
+}
+
+export async function requireTransfer(transferId: string): Promise<Transfer> {
+  const transfer = await storage.getTransfer(transferId);
+  if (!transfer) {
+    throw new SignalingError("unknown-transfer", "Transfer does not exist", transferId);
+  }
+  return transfer;
+}
+
+// The parties behind a transferId, or behind a batchId for all files of a batch
+export interface SignalingSession {
+  transferId: string;
+  senderId: string;
+  receiverId: string;
+  transfers: Transfer[];
+}
+
+type Parties = Pick<Transfer, "transferId" | "senderId" | "receiverId">;
+
+export async function requireSession(id: string): Promise<SignalingSession> {
+  const transfer = await storage.getTransfer(id);
+  if (transfer) {
+    return { transferId: id, senderId: transfer.senderId, receiverId: transfer.receiverId, transfers: [transfer] };
+  }
+
+  const batch = await storage.getBatchTransfers(id);
+  if (batch.length === 0) {
+    throw new SignalingError("unknown-transfer", "Transfer does not exist", id);
+  }
+  return { transferId: id, senderId: batch[0].senderId, receiverId: batch[0].receiverId, transfers: batch };
+}
+
+// Transfer and batch ids share one namespace, so neither can be claimed twice
+export async function requireUnusedId(id: string) {
+  if (await storage.getTransfer(id) || (await storage.getBatchTransfers(id)).length > 0) {
+    throw new SignalingError("transfer-exists", "Transfer id is already in use", id);
+  }
+}
+
+// Rooms scope discovery, so a device id learned elsewhere is no way in
+export async function requireSameRoom(deviceId: string, otherId: string, transferId?: string) {
+  const [device, other] = await Promise.all([storage.getDevice(deviceId), storage.getDevice(otherId)]);
+  if (!device || !other || device.room !== other.room) {
+    throw new SignalingError("not-in-room", "Device is not in your room", transferId);
+  }
+}
+
+// The other party of the transfer, which is where the device's messages go
+export function peerOf(transfer: Parties, deviceId: string): string {
+  if (deviceId === transfer.senderId) return transfer.receiverId;
+  if (deviceId === transfer.receiverId) return transfer.senderId;
+  throw new SignalingError("not-a-party", "Device is not part of this transfer", transfer.transferId);
+}
+
+export function requireReceiver(transfer: Parties, deviceId: string) {
+  if (deviceId !== transfer.receiverId) {
+    throw new SignalingError("not-receiver", "Only the receiver can send this message", transfer.transferId);
+  }
+}
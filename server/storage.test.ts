@@ -0,0 +1,140 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { InsertTransfer } from "@shared/schema";
+import { MemStorage, DbStorage, initStorage, type IStorage } from "./storage";
+
+function offer(transferId: string, overrides: Partial<InsertTransfer> = {}): InsertTransfer {
+  return {
+    transferId,
+    fileName: `${transferId}.bin`,
+    fileSize: 5_000_000_000,
+    fileType: "application/octet-stream",
+    senderId: "alice",
+    receiverId: "bob",
+    ...overrides,
+  };
+}
+
+// The same expectations hold for both implementations
+function storageSuite(name: string, open: () => Promise<{ storage: IStorage; close?: () => Promise<void> }>) {
+  describe(name, () => {
+    let storage: IStorage;
+    let close: (() => Promise<void>) | undefined;
+
+    before(async () => {
+      ({ storage, close } = await open());
+    });
+
+    after(async () => {
+      await close?.();
+    });
+
+    it("creates and looks up devices", async () => {
+      const alice = await storage.createDevice({ deviceId: "alice", name: "Alice", type: "laptop", room: "ROOM1" });
+      assert.equal(alice.status, "available");
+      assert.equal(alice.room, "ROOM1");
+      assert.equal((await storage.getDevice("alice"))?.name, "Alice");
+      assert.equal((await storage.getDeviceByInternalId(alice.id))?.deviceId, "alice");
+      assert.equal(await storage.getDevice("nobody"), undefined);
+    });
+
+    it("updates devices without touching their keys", async () => {
+      const before = await storage.getDevice("alice");
+      const updated = await storage.updateDevice("alice", { name: "Alice's laptop", id: 999, deviceId: "mallory" });
+      assert.equal(updated?.name, "Alice's laptop");
+      assert.equal(updated?.id, before?.id);
+      assert.equal(updated?.deviceId, "alice");
+      assert.equal(await storage.getDevice("mallory"), undefined);
+      assert.equal(await storage.updateDevice("nobody", { name: "x" }), undefined);
+    });
+
+    it("lists available devices in a room", async () => {
+      await storage.createDevice({ deviceId: "bob", name: "Bob", type: "mobile", room: "ROOM1" });
+      await storage.createDevice({ deviceId: "carol", name: "Carol", type: "tablet", room: "ROOM2" });
+
+      const room1 = await storage.getAvailableDevices("ROOM1", "alice");
+      assert.deepEqual(room1.map(device => device.deviceId), ["bob"]);
+
+      await storage.setDeviceOffline("bob");
+      assert.deepEqual(await storage.getAvailableDevices("ROOM1", "alice"), []);
+      assert.deepEqual((await storage.getAvailableDevices("ROOM2")).map(device => device.deviceId), ["carol"]);
+    });
+
+    it("keeps the first secret of a device", async () => {
+      assert.equal(await storage.getDeviceSecretHash("alice"), undefined);
+      assert.equal(await storage.createDeviceSecretHash("alice", "hash-1"), true);
+      assert.equal(await storage.createDeviceSecretHash("alice", "hash-2"), false);
+      assert.equal(await storage.getDeviceSecretHash("alice"), "hash-1");
+    });
+
+    it("creates transfers with defaults and large sizes", async () => {
+      const transfer = await storage.createTransfer(offer("t1"));
+      assert.equal(transfer.status, "pending");
+      assert.equal(transfer.progress, 0);
+      assert.equal(transfer.bytesTransferred, 0);
+      assert.equal(transfer.fileSize, 5_000_000_000);
+      assert.equal(transfer.batchId, null);
+      assert.equal(transfer.relativePath, null);
+      assert.equal(transfer.transport, null);
+      assert.equal(transfer.completedAt, null);
+      assert.equal((await storage.getTransfer("t1"))?.fileName, "t1.bin");
+      assert.equal(await storage.getTransfer("nope"), undefined);
+    });
+
+    it("updates transfers without touching their keys and stamps completion", async () => {
+      const before = await storage.getTransfer("t1");
+      const updated = await storage.updateTransfer("t1", { status: "transferring", progress: 40, id: 999, transferId: "t2" });
+      assert.equal(updated?.id, before?.id);
+      assert.equal(updated?.transferId, "t1");
+      assert.equal(updated?.progress, 40);
+      assert.equal(updated?.completedAt, null);
+      assert.equal(await storage.getTransfer("t2"), undefined);
+
+      const completed = await storage.updateTransfer("t1", { status: "completed", progress: 100, durationMs: 2000, averageSpeed: 2_500_000_000, transport: "p2p" });
+      assert.ok(completed?.completedAt instanceof Date);
+      assert.equal(completed?.averageSpeed, 2_500_000_000);
+      assert.equal(completed?.transport, "p2p");
+
+      assert.equal((await storage.updateTransfer("t1", {}))?.status, "completed");
+      assert.equal(await storage.updateTransfer("nope", { progress: 1 }), undefined);
+    });
+
+    it("lists the files of a batch in offer order", async () => {
+      await storage.createTransfer(offer("b1-a", { batchId: "b1", relativePath: "photos/a.jpg" }));
+      await storage.createTransfer(offer("b1-b", { batchId: "b1", relativePath: "photos/b.jpg" }));
+      const files = await storage.getBatchTransfers("b1");
+      assert.deepEqual(files.map(file => file.relativePath), ["photos/a.jpg", "photos/b.jpg"]);
+    });
+
+    it("separates active transfers from history", async () => {
+      await storage.createTransfer(offer("t3", { senderId: "carol", receiverId: "dave" }));
+      await storage.updateTransfer("b1-b", { status: "paused" });
+      await storage.updateTransfer("b1-a", { status: "rejected" });
+
+      const active = await storage.getActiveTransfers("bob");
+      assert.deepEqual(active.map(transfer => transfer.transferId).sort(), ["b1-b"]);
+
+      const history = await storage.getTransferHistory("alice");
+      assert.deepEqual(history.map(transfer => transfer.transferId).sort(), ["b1-a", "t1"]);
+      assert.equal((await storage.getTransferHistory("alice", 1)).length, 1);
+      assert.deepEqual(await storage.getTransferHistory("dave"), []);
+    });
+  });
+}
+
+storageSuite("MemStorage", async () => ({ storage: new MemStorage() }));
+
+// Runs the real migrations, so a migration that drifted from shared/schema.ts fails here
+storageSuite("DbStorage", async () => {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+  await initStorage({
+    db,
+    migrate: () => migrate(db, { migrationsFolder: "./migrations" }),
+  });
+  return { storage: new DbStorage(db), close: () => client.close() };
+});
@@ -1,4 +1,6 @@
-import { devices, transfers, type Device, type InsertDevice, type Transfer, type InsertTransfer } from "@shared/schema";
+import { and, desc, eq, gt, inArray, ne, or } from "drizzle-orm";
+import { devices, deviceSecrets, transfers, type Device, type InsertDevice, type Transfer, type InsertTransfer } from "@shared/schema";
+import { createDatabase, type Database, type DatabaseHandle } from "./db";
 
 export interface IStorage {
   // Device management
@@ -6,25 +8,34 @@ export interface IStorage {
   getDeviceByInternalId(id: number): Promise<Device | undefined>;
   createDevice(device: InsertDevice): Promise<Device>;
   updateDevice(deviceId: string, updates: Partial<Device>): Promise<Device | undefined>;
-  getAvailableDevices(excludeDeviceId?: string): Promise<Device[]>;
+  getAvailableDevices(room: string, excludeDeviceId?: string): Promise<Device[]>;
   setDeviceOffline(deviceId: string): Promise<void>;
+  getDeviceSecretHash(deviceId: string): Promise<string | undefined>;
+  // False when the device already has one, which is never replaced
+  createDeviceSecretHash(deviceId: string, secretHash: string): Promise<boolean>;
 
   // Transfer management
   getTransfer(transferId: string): Promise<Transfer | undefined>;
+  getBatchTransfers(batchId: string): Promise<Transfer[]>;
   createTransfer(transfer: InsertTransfer): Promise<Transfer>;
   updateTransfer(transferId: string, updates: Partial<Transfer>): Promise<Transfer | undefined>;
   getActiveTransfers(deviceId: string): Promise<Transfer[]>;
   getTransferHistory(deviceId: string, limit?: number): Promise<Transfer[]>;
 }
 
+// Statuses after which a transfer gets its completedAt timestamp
+const FINISHED_STATUSES = ["completed", "failed", "integrity-failed"];
+
 export class MemStorage implements IStorage {
   private devices: Map<string, Device>;
+  private deviceSecretHashes: Map<string, string>;
   private transfers: Map<string, Transfer>;
   private deviceIdCounter: number;
   private transferIdCounter: number;
 
   constructor() {
     this.devices = new Map();
+    this.deviceSecretHashes = new Map();
     this.transfers = new Map();
     this.deviceIdCounter = 1;
     this.transferIdCounter = 1;
@@ -44,6 +55,7 @@ export class MemStorage implements IStorage {
       ...insertDevice,
       id,
       status: insertDevice.status || 'available',
+      room: insertDevice.room ?? '',
       lastSeen: new Date(),
     };
     this.devices.set(device.deviceId, device);
@@ -54,20 +66,23 @@ export class MemStorage implements IStorage {
     const device = this.devices.get(deviceId);
     if (!device) return undefined;
 
+    // Keys identify the row and never change, as in DbStorage
+    const { id: _id, deviceId: _deviceId, ...changes } = updates;
     const updatedDevice: Device = {
       ...device,
-      ...updates,
+      ...changes,
       lastSeen: new Date(),
     };
     this.devices.set(deviceId, updatedDevice);
     return updatedDevice;
   }
 
-  async getAvailableDevices(excludeDeviceId?: string): Promise<Device[]> {
+  async getAvailableDevices(room: string, excludeDeviceId?: string): Promise<Device[]> {
     const now = new Date();
     const fiveMinutesAgo = new Date(now.getTime() - 5 * 60 * 1000);
     
     return Array.from(this.devices.values()).filter(device => 
+      device.room === room &&
       device.deviceId !== excludeDeviceId &&
       device.status !== "offline" &&
       device.lastSeen > fiveMinutesAgo
@@ -82,10 +97,26 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async getDeviceSecretHash(deviceId: string): Promise<string | undefined> {
+    return this.deviceSecretHashes.get(deviceId);
+  }
+
+  async createDeviceSecretHash(deviceId: string, secretHash: string): Promise<boolean> {
+    if (this.deviceSecretHashes.has(deviceId)) return false;
+    this.deviceSecretHashes.set(deviceId, secretHash);
+    return true;
+  }
+
   async getTransfer(transferId: string): Promise<Transfer | undefined> {
     return this.transfers.get(transferId);
   }
 
+  async getBatchTransfers(batchId: string): Promise<Transfer[]> {
+    return Array.from(this.transfers.values())
+      .filter(transfer => transfer.batchId === batchId)
+      .sort((a, b) => a.id - b.id);
+  }
+
   async createTransfer(insertTransfer: InsertTransfer): Promise<Transfer> {
     const id = this.transferIdCounter++;
     const transfer: Transfer = {
@@ -93,6 +124,12 @@ export class MemStorage implements IStorage {
       id,
       status: insertTransfer.status || 'pending',
       progress: insertTransfer.progress || 0,
+      bytesTransferred: insertTransfer.bytesTransferred || 0,
+      durationMs: insertTransfer.durationMs ?? null,
+      averageSpeed: insertTransfer.averageSpeed ?? null,
+      transport: insertTransfer.transport ?? null,
+      batchId: insertTransfer.batchId ?? null,
+      relativePath: insertTransfer.relativePath ?? null,
       createdAt: new Date(),
       completedAt: null,
     };
@@ -104,10 +141,11 @@ export class MemStorage implements IStorage {
     const transfer = this.transfers.get(transferId);
     if (!transfer) return undefined;
 
+    const { id: _id, transferId: _transferId, ...changes } = updates;
     const updatedTransfer: Transfer = {
       ...transfer,
-      ...updates,
-      completedAt: (updates.status === "completed" || updates.status === "failed") ? new Date() : transfer.completedAt,
+      ...changes,
+      completedAt: updates.status && FINISHED_STATUSES.includes(updates.status) ? new Date() : transfer.completedAt,
     };
     this.transfers.set(transferId, updatedTransfer);
     return updatedTransfer;
@@ -116,7 +154,7 @@ export class MemStorage implements IStorage {
   async getActiveTransfers(deviceId: string): Promise<Transfer[]> {
     return Array.from(this.transfers.values()).filter(transfer =>
       (transfer.senderId === deviceId || transfer.receiverId === deviceId) &&
-      ["pending", "accepted", "transferring"].includes(transfer.status)
+      ["pending", "accepted", "transferring", "paused"].includes(transfer.status)
     );
   }
 
@@ -124,11 +162,159 @@ export class MemStorage implements IStorage {
     return Array.from(this.transfers.values())
       .filter(transfer =>
         (transfer.senderId === deviceId || transfer.receiverId === deviceId) &&
-        ["completed", "failed", "rejected"].includes(transfer.status)
+        ["completed", "failed", "integrity-failed", "rejected", "expired", "cancelled"].includes(transfer.status)
       )
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
       .slice(0, limit);
   }
 }
 
-export const storage = new MemStorage();
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getDevice(deviceId: string): Promise<Device | undefined> {
+    const [device] = await this.db.select().from(devices).where(eq(devices.deviceId, deviceId));
+    return device;
+  }
+
+  async getDeviceByInternalId(id: number): Promise<Device | undefined> {
+    const [device] = await this.db.select().from(devices).where(eq(devices.id, id));
+    return device;
+  }
+
+  async createDevice(insertDevice: InsertDevice): Promise<Device> {
+    const [device] = await this.db
+      .insert(devices)
+      .values({
+        ...insertDevice,
+        status: insertDevice.status || 'available',
+        lastSeen: new Date(),
+      })
+      .returning();
+    return device;
+  }
+
+  async updateDevice(deviceId: string, updates: Partial<Device>): Promise<Device | undefined> {
+    const { id: _id, deviceId: _deviceId, ...changes } = updates;
+    const [device] = await this.db
+      .update(devices)
+      .set({ ...changes, lastSeen: new Date() })
+      .where(eq(devices.deviceId, deviceId))
+      .returning();
+    return device;
+  }
+
+  async getAvailableDevices(room: string, excludeDeviceId?: string): Promise<Device[]> {
+    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
+
+    return this.db
+      .select()
+      .from(devices)
+      .where(and(
+        eq(devices.room, room),
+        excludeDeviceId ? ne(devices.deviceId, excludeDeviceId) : undefined,
+        ne(devices.status, "offline"),
+        gt(devices.lastSeen, fiveMinutesAgo)
+      ));
+  }
+
+  async setDeviceOffline(deviceId: string): Promise<void> {
+    await this.db
+      .update(devices)
+      .set({ status: "offline" })
+      .where(eq(devices.deviceId, deviceId));
+  }
+
+  async getDeviceSecretHash(deviceId: string): Promise<string | undefined> {
+    const [row] = await this.db.select().from(deviceSecrets).where(eq(deviceSecrets.deviceId, deviceId));
+    return row?.secretHash;
+  }
+
+  async createDeviceSecretHash(deviceId: string, secretHash: string): Promise<boolean> {
+    const inserted = await this.db
+      .insert(deviceSecrets)
+      .values({ deviceId, secretHash })
+      .onConflictDoNothing()
+      .returning();
+    return inserted.length > 0;
+  }
+
+  async getTransfer(transferId: string): Promise<Transfer | undefined> {
+    const [transfer] = await this.db.select().from(transfers).where(eq(transfers.transferId, transferId));
+    return transfer;
+  }
+
+  async getBatchTransfers(batchId: string): Promise<Transfer[]> {
+    return this.db
+      .select()
+      .from(transfers)
+      .where(eq(transfers.batchId, batchId))
+      .orderBy(transfers.id);
+  }
+
+  async createTransfer(insertTransfer: InsertTransfer): Promise<Transfer> {
+    const [transfer] = await this.db
+      .insert(transfers)
+      .values({
+        ...insertTransfer,
+        status: insertTransfer.status || 'pending',
+        progress: insertTransfer.progress || 0,
+      })
+      .returning();
+    return transfer;
+  }
+
+  async updateTransfer(transferId: string, updates: Partial<Transfer>): Promise<Transfer | undefined> {
+    const { id: _id, transferId: _transferId, ...changes } = updates;
+    if (updates.status && FINISHED_STATUSES.includes(updates.status)) {
+      changes.completedAt = new Date();
+    }
+
+    // An empty update still has to return the current row, like MemStorage does
+    if (Object.keys(changes).length === 0) {
+      return this.getTransfer(transferId);
+    }
+
+    const [transfer] = await this.db
+      .update(transfers)
+      .set(changes)
+      .where(eq(transfers.transferId, transferId))
+      .returning();
+    return transfer;
+  }
+
+  async getActiveTransfers(deviceId: string): Promise<Transfer[]> {
+    return this.db
+      .select()
+      .from(transfers)
+      .where(and(
+        or(eq(transfers.senderId, deviceId), eq(transfers.receiverId, deviceId)),
+        inArray(transfers.status, ["pending", "accepted", "transferring", "paused"])
+      ));
+  }
+
+  async getTransferHistory(deviceId: string, limit = 10): Promise<Transfer[]> {
+    return this.db
+      .select()
+      .from(transfers)
+      .where(and(
+        or(eq(transfers.senderId, deviceId), eq(transfers.receiverId, deviceId)),
+        inArray(transfers.status, ["completed", "failed", "integrity-failed", "rejected", "expired", "cancelled"])
+      ))
+      .orderBy(desc(transfers.createdAt))
+      .limit(limit);
+  }
+}
+
+// Persist to Postgres when a database is provisioned, otherwise keep
+// everything in memory for the lifetime of the process
+const database = process.env.DATABASE_URL ? createDatabase(process.env.DATABASE_URL) : undefined;
+
+export const storage: IStorage = database ? new DbStorage(database.db) : new MemStorage();
+
+// Brings the database schema up to date; tests pass their own database
+export async function initStorage(target: DatabaseHandle | undefined = database): Promise<void> {
+  if (target) {
+    await target.migrate();
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,23 +8,47 @@ export const devices = pgTable("devices", {
   name: text("name").notNull(),
   type: text("type").notNull(), // "laptop", "mobile", "tablet"
   status: text("status").notNull().default("available"), // "available", "busy", "offline"
+  // Discovery scope assigned by the server: "code:<ROOM>", "net:<hash>" or "lan"
+  room: text("room").notNull().default(""),
   lastSeen: timestamp("last_seen").notNull().defaultNow(),
 });
 
+// Proof of ownership of a deviceId: the SHA-256 of the secret the server hands
+// the device when it first registers. Kept apart from devices so it never
+// travels with a device list.
+export const deviceSecrets = pgTable("device_secrets", {
+  deviceId: text("device_id").primaryKey(),
+  secretHash: text("secret_hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const transfers = pgTable("transfers", {
   id: serial("id").primaryKey(),
   transferId: text("transfer_id").notNull().unique(),
   fileName: text("file_name").notNull(),
-  fileSize: integer("file_size").notNull(),
+  fileSize: bigint("file_size", { mode: "number" }).notNull(),
   fileType: text("file_type").notNull(),
   senderId: text("sender_id").notNull(),
   receiverId: text("receiver_id").notNull(),
-  status: text("status").notNull().default("pending"), // "pending", "accepted", "rejected", "transferring", "completed", "failed"
+  status: text("status").notNull().default("pending"), // "pending", "accepted", "rejected", "expired", "transferring", "paused", "cancelled", "completed", "failed", "integrity-failed"
   progress: integer("progress").notNull().default(0),
+  bytesTransferred: bigint("bytes_transferred", { mode: "number" }).notNull().default(0),
+  // Reported when the transfer completes: how long the bytes took, the
+  // resulting speed in bytes per second and how they travelled ("p2p" or "relay")
+  durationMs: integer("duration_ms"),
+  averageSpeed: bigint("average_speed", { mode: "number" }),
+  transport: text("transport"),
+  // Set for files offered together in one batch offer
+  batchId: text("batch_id"),
+  // Path of the file inside a sent folder
+  relativePath: text("relative_path"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   completedAt: timestamp("completed_at"),
 });
 
+// Named rooms are joined with a short code, e.g. /r/K7QX2M
+export const roomCodeSchema = z.string().regex(/^[A-Z0-9]{4,12}$/);
+
 export const insertDeviceSchema = createInsertSchema(devices).omit({
   id: true,
   lastSeen: true,
@@ -41,11 +65,84 @@ export type Device = typeof devices.$inferSelect;
 export type InsertTransfer = z.infer<typeof insertTransferSchema>;
 export type Transfer = typeof transfers.$inferSelect;
 
+// One entry of a batch offer's manifest
+// A path inside a sent folder, e.g. "photos/2024/img.jpg": forward slashes
+// only, no empty, "." or ".." segments, so it can never leave the folder it
+// is written into
+export const relativePathSchema = z.string().max(1024).refine(
+  path => path.split("/").every(segment => segment !== "" && segment !== "." && segment !== ".." && !/[\\\0]/.test(segment)),
+  "Invalid relative path"
+);
+
+export const batchFileSchema = z.object({
+  transferId: z.string(),
+  fileName: z.string(),
+  fileSize: z.number().int().nonnegative(),
+  fileType: z.string(),
+  // Set for the files of a folder, which the receiver recreates
+  relativePath: relativePathSchema.optional(),
+});
+
+export type BatchFile = z.infer<typeof batchFileSchema>;
+
+// Limit on files per batch offer, to keep the message within reason
+export const MAX_BATCH_FILES = 1000;
+
+// "ice" tokens fetch TURN credentials; their transferId is the device's own id
+export const relayTokenScopeSchema = z.enum(["upload", "download", "ice"]);
+export type RelayTokenScope = z.infer<typeof relayTokenScopeSchema>;
+
+// How a transfer's bytes travelled: straight between the devices or via the relay
+export const transportSchema = z.enum(["p2p", "relay"]);
+export type Transport = z.infer<typeof transportSchema>;
+
+// ICE servers handed to clients by GET /api/ice-config. TURN entries carry
+// time-limited credentials, so the whole list is refetched before `expiresAt`
+// (null when nothing in it expires). An empty list means host candidates only.
+export const iceServerSchema = z.object({
+  urls: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+  username: z.string().optional(),
+  credential: z.string().optional(),
+});
+
+export type IceServer = z.infer<typeof iceServerSchema>;
+
+export interface IceConfig {
+  iceServers: IceServer[];
+  expiresAt: number | null;
+}
+
+// Text sent straight to another device (URLs, tokens, code). It travels over
+// an open data channel when there is one and through the server otherwise;
+// either way the receiver checks it against this schema.
+export const MAX_TEXT_SHARE_LENGTH = 64 * 1024;
+
+export const textShareSchema = z.object({
+  type: z.literal("text-share"),
+  shareId: z.string().max(64),
+  senderId: z.string(),
+  receiverId: z.string(),
+  text: z.string().min(1).max(MAX_TEXT_SHARE_LENGTH),
+});
+
+export type TextShare = z.infer<typeof textShareSchema>;
+
 // WebSocket message types
 export const wsMessageSchema = z.discriminatedUnion("type", [
   z.object({
     type: z.literal("device-register"),
     device: insertDeviceSchema,
+    // Named room to join; without one the device is grouped by network
+    roomCode: roomCodeSchema.optional(),
+    // The secret from this deviceId's first registration (see device-secret)
+    secret: z.string().optional(),
+  }),
+  // Sent by the server when a deviceId is registered for the first time; the
+  // device presents it whenever it registers again
+  z.object({
+    type: z.literal("device-secret"),
+    deviceId: z.string(),
+    secret: z.string(),
   }),
   z.object({
     type: z.literal("device-update"),
@@ -63,41 +160,154 @@ export const wsMessageSchema = z.discriminatedUnion("type", [
     fileType: z.string(),
     senderId: z.string(),
     receiverId: z.string(),
+    // Base64 raw ECDH P-256 public keys, exchanged to encrypt relayed files end to end
+    publicKey: z.string().optional(),
+    // Sender's identity-key signature over the offer, checked by devices it is paired with
+    signature: z.string().optional(),
+  }),
+  // Several files accepted with one prompt and sent over one peer connection.
+  // The batchId stands in for a transferId in transfer-answer, webrtc-* and
+  // transfer-resume; progress, completion and relay uploads stay per file.
+  z.object({
+    type: z.literal("batch-offer"),
+    batchId: z.string(),
+    senderId: z.string(),
+    receiverId: z.string(),
+    files: z.array(batchFileSchema).min(1).max(MAX_BATCH_FILES),
+    totalSize: z.number().int().nonnegative(),
+    publicKey: z.string().optional(),
+    signature: z.string().optional(),
   }),
   z.object({
     type: z.literal("transfer-answer"),
     transferId: z.string(),
     accepted: z.boolean(),
+    publicKey: z.string().optional(),
+    // Receiver's identity-key signature over its publicKey, checked by the
+    // sender when they are paired
+    signature: z.string().optional(),
   }),
+  // A peer connection is shared by all transfers between two devices, so
+  // signaling is addressed by connectionId; transferId names the transfer the
+  // connection was opened for, which is what the server checks the parties of
   z.object({
     type: z.literal("webrtc-offer"),
     transferId: z.string(),
+    connectionId: z.string(),
     offer: z.any(),
   }),
   z.object({
     type: z.literal("webrtc-answer"),
     transferId: z.string(),
+    connectionId: z.string(),
     answer: z.any(),
   }),
   z.object({
     type: z.literal("webrtc-ice-candidate"),
     transferId: z.string(),
+    connectionId: z.string(),
     candidate: z.any(),
   }),
+  // Sent by the receiver with its missing ranges to continue an interrupted
+  // transfer. Without ranges it ends a pause and may come from either side.
+  z.object({
+    type: z.literal("transfer-resume"),
+    transferId: z.string(),
+    chunkSize: z.number().int().positive().optional(),
+    // Half-open [start, end) chunk index ranges still missing on the receiving side
+    missingRanges: z.array(z.tuple([z.number().int().nonnegative(), z.number().int().nonnegative()])).optional(),
+    // For a batch: the files still incomplete and their missing ranges (missingRanges is then empty)
+    files: z.array(z.object({
+      transferId: z.string(),
+      missingRanges: z.array(z.tuple([z.number().int().nonnegative(), z.number().int().nonnegative()])),
+    })).optional(),
+  }),
+  // Either side can pause or cancel a transfer (or a batch, by batchId); the
+  // server updates its status and tells the other side
+  z.object({
+    type: z.literal("transfer-pause"),
+    transferId: z.string(),
+  }),
+  z.object({
+    type: z.literal("transfer-cancel"),
+    transferId: z.string(),
+    reason: z.string().optional(),
+  }),
   z.object({
     type: z.literal("transfer-progress"),
     transferId: z.string(),
-    progress: z.number(),
+    progress: z.number().int().min(0).max(100),
+    bytesTransferred: z.number().int().nonnegative().optional(),
   }),
   z.object({
     type: z.literal("transfer-complete"),
     transferId: z.string(),
+    // Statistics of the finished transfer, kept for the history
+    bytesTransferred: z.number().int().nonnegative().optional(),
+    durationMs: z.number().int().nonnegative().optional(),
+    transport: transportSchema.optional(),
+  }),
+  // Sent by the server to both sides when an offer (or batch, by batchId) was
+  // never answered
+  z.object({
+    type: z.literal("transfer-expired"),
+    transferId: z.string(),
   }),
   z.object({
     type: z.literal("transfer-error"),
     transferId: z.string(),
     error: z.string(),
+    // Set when the receiver's SHA-256 check of the assembled file failed
+    code: z.literal("integrity-failed").optional(),
+  }),
+  // Pairing: a commit/reveal exchange of identity keys, after which both users
+  // compare a short code derived from the keys and nonces. `peerId` is the
+  // target device when sent and is rewritten to the sending device on delivery.
+  z.object({
+    type: z.literal("pair-request"),
+    pairingId: z.string(),
+    peerId: z.string(),
+    name: z.string(),
+    // Hex SHA-256 of the initiator's identity key and nonce, revealed later
+    commitment: z.string(),
+  }),
+  z.object({
+    type: z.literal("pair-accept"),
+    pairingId: z.string(),
+    peerId: z.string(),
+    name: z.string(),
+    publicKey: z.string(),
+    nonce: z.string(),
+  }),
+  z.object({
+    type: z.literal("pair-reveal"),
+    pairingId: z.string(),
+    peerId: z.string(),
+    publicKey: z.string(),
+    nonce: z.string(),
+  }),
+  z.object({
+    type: z.literal("pair-cancel"),
+    pairingId: z.string(),
+    peerId: z.string(),
+    reason: z.string().optional(),
+  }),
+  // Relay uploads and downloads need a token bound to the device; the server
+  // pushes one with the offer / acceptance (and an ICE token on registration)
+  // and answers requests for fresh ones
+  z.object({
+    type: z.literal("relay-token-request"),
+    transferId: z.string(),
+    scope: relayTokenScopeSchema,
+  }),
+  z.object({
+    type: z.literal("relay-token"),
+    transferId: z.string(),
+    scope: relayTokenScopeSchema,
+    token: z.string(),
+    expiresAt: z.number(),
   }),
+  textShareSchema,
   z.object({
     type: z.literal("ping"),
     timestamp: z.number(),
@@ -110,3 +320,33 @@ export const wsMessageSchema = z.discriminatedUnion("type", [
 ]);
 
 export type WSMessage = z.infer<typeof wsMessageSchema>;
+
+// Sent by the server when it refuses a message; `requestType` names the refused message
+export const signalingErrorCodes = [
+  "invalid-message",
+  "not-registered",
+  "sender-mismatch",
+  "device-claimed",
+  "unknown-transfer",
+  "transfer-exists",
+  "not-a-party",
+  "not-in-room",
+  "not-receiver",
+  "not-accepted",
+  "peer-offline",
+  "offer-expired",
+  "transfer-cancelled",
+] as const;
+
+export type SignalingErrorCode = typeof signalingErrorCodes[number];
+
+export const wsErrorSchema = z.object({
+  type: z.literal("error"),
+  code: z.enum(signalingErrorCodes),
+  message: z.string(),
+  requestType: z.string().optional(),
+  // The transfer (or text share, or pairing) the refused message was about
+  transferId: z.string().optional(),
+});
+
+export type WSError = z.infer<typeof wsErrorSchema>;